@@ -0,0 +1,116 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { ApiKeyConfig } from "./config.js";
+import type { Scope } from "./scopes.js";
+
+// The caller behind an authenticated request
+export interface Credential {
+  name: string;
+  people?: string[]; // When set, only these people's endpoints are allowed
+  clientId?: string; // OAuth client the credential was issued to
+  grantId?: string; // OAuth authorization the token came from, kept across refreshes
+  scopes?: Scope[]; // Tools the credential may use; undefined means all
+  redact?: string[]; // Redaction entries added to the deployment-wide policy
+}
+
+export interface AuthOptions {
+  keys: ApiKeyConfig[];
+  // OAuth mode: resolves a bearer access token issued by this server for the
+  // requested endpoint. Tried before the API keys.
+  verifyAccessToken?: (token: string) => Promise<Credential | undefined>;
+}
+
+export type AuthResult =
+  | { ok: true; credential?: Credential } // credential is undefined when auth is disabled
+  | { ok: false; status: 401 | 403; message: string };
+
+// Hash first so every comparison is over equal-length buffers, then compare in
+// constant time. All keys are checked so timing doesn't reveal which one matched.
+export function matchApiKey(presented: string, keys: ApiKeyConfig[]): ApiKeyConfig | undefined {
+  const presentedDigest = createHash("sha256").update(presented).digest();
+  let match: ApiKeyConfig | undefined;
+  for (const apiKey of keys) {
+    const keyDigest = createHash("sha256").update(apiKey.key).digest();
+    if (timingSafeEqual(presentedDigest, keyDigest) && !match) {
+      match = apiKey;
+    }
+  }
+  return match;
+}
+
+// Pull the key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function extractApiKey(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const authorization = headers["authorization"];
+  if (typeof authorization === "string") {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) return match[1].trim();
+  }
+
+  const apiKey = headers["x-api-key"];
+  return typeof apiKey === "string" && apiKey ? apiKey : undefined;
+}
+
+// Check a request against the configured API keys and, in OAuth mode, access tokens.
+// With neither configured every request is allowed, which keeps local and
+// single-user setups working unchanged.
+export async function authenticateRequest(
+  headers: Record<string, string | string[] | undefined>,
+  options: AuthOptions,
+  person?: string,
+): Promise<AuthResult> {
+  const { keys, verifyAccessToken } = options;
+  if (keys.length === 0 && !verifyAccessToken) {
+    return { ok: true };
+  }
+
+  const presented = extractApiKey(headers);
+  if (!presented) {
+    return { ok: false, status: 401, message: verifyAccessToken ? "Missing access token" : "Missing API key" };
+  }
+
+  let credential = verifyAccessToken ? await verifyAccessToken(presented) : undefined;
+  if (!credential) {
+    const apiKey = matchApiKey(presented, keys);
+    credential = apiKey && { name: apiKey.name, people: apiKey.people, scopes: apiKey.scopes, redact: apiKey.redact };
+  }
+
+  if (!credential) {
+    return { ok: false, status: 401, message: verifyAccessToken ? "Invalid or expired access token" : "Invalid API key" };
+  }
+
+  if (credential.people && (person === undefined || !credential.people.includes(person))) {
+    return { ok: false, status: 403, message: `Credential "${credential.name}" is not allowed for this knowledge base` };
+  }
+
+  return { ok: true, credential };
+}
+
+// JSON-RPC error body and headers for a rejected request. The request id isn't
+// known before the body is parsed, so it is always null. In OAuth mode the
+// challenge points clients at the protected resource metadata (RFC 9728).
+export function authErrorResponse(result: Extract<AuthResult, { ok: false }>, resourceMetadataUrl?: string): {
+  headers: Record<string, string>;
+  body: string;
+} {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (result.status === 401) {
+    headers["WWW-Authenticate"] = resourceMetadataUrl
+      ? `Bearer realm="myself-mcp", resource_metadata="${resourceMetadataUrl}"`
+      : 'Bearer realm="myself-mcp"';
+  }
+
+  return {
+    headers,
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: `${result.status === 401 ? "Unauthorized" : "Forbidden"}: ${result.message}` },
+      id: null,
+    }),
+  };
+}
+
+// One-line summary for startup logs (never includes the keys)
+export function describeAuth(keys: ApiKeyConfig[]): string {
+  return keys.length > 0
+    ? `API keys: ${keys.map(apiKey => apiKey.name).join(", ")}`
+    : "API keys: none (MCP endpoints are open)";
+}
@@ -0,0 +1,163 @@
+import { parseDataFile } from "./schemas.js";
+import { BUSINESSES, goalsPath, journalEntryPath, listFilesRecursive, listGoalYears } from "./kb-paths.js";
+import type {
+  ApplicationsData,
+  CareerRoadmapData,
+  ChiefAimData,
+  GoalsData,
+  ResumeManifest,
+} from "./types.js";
+import type { Storage } from "./storage.js";
+
+// Argument suggestions drawn from the current data files. Prompts and resource
+// templates offer them through completion/complete; MCP has no completion for
+// tool arguments, so complete_tool_argument serves the same suggestions for tools.
+
+// Most suggestions a completion returns (the MCP limit)
+const MAX_SUGGESTIONS = 100;
+
+// Other arguments already filled in, by name
+export type CompletionContext = Record<string, string | undefined>;
+
+export type Completer = (value: string, context?: CompletionContext) => Promise<string[]>;
+
+// Values starting with what was typed so far (case-insensitive), deduplicated,
+// in the order the data file keeps them
+export function matching(values: Iterable<string>, value: string): string[] {
+  const prefix = value.toLowerCase();
+  return [...new Set(values)]
+    .filter(candidate => candidate.toLowerCase().startsWith(prefix))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Completion never fails over bad data or an unreachable backend; it just has nothing to offer
+function safely(completer: Completer): Completer {
+  return async (value, context) => {
+    try {
+      return await completer(value, context);
+    } catch {
+      return [];
+    }
+  };
+}
+
+// Every completer, by what it suggests
+export interface Completions {
+  skillCategories: Completer;
+  skillNames: Completer; // Within context.category when given
+  goalYears: Completer;
+  goalIds: Completer; // In context.year's goals, or the current year's
+  goalCategories: Completer;
+  milestoneIds: Completer;
+  resumeVariants: Completer;
+  chiefAimPrinciples: Completer;
+  claudeProjects: Completer;
+  claudeProjectFiles: Completer; // In context.name's or context.project's folder
+  journalDates: Completer;
+  businesses: Completer;
+  businessDocs: Completer; // In context.business's folder
+  applicationCompanies: Completer;
+}
+
+// Tool arguments with suggestions, by tool name then argument name
+export const TOOL_ARGUMENT_COMPLETIONS: Record<string, Record<string, keyof Completions>> = {
+  get_skills: { category: "skillCategories" },
+  update_skill: { category: "skillCategories", skill_name: "skillNames" },
+  get_goals: { year: "goalYears", category: "goalCategories" },
+  update_goal_progress: { year: "goalYears", goal_id: "goalIds" },
+  update_goal: { year: "goalYears", goal_id: "goalIds" },
+  update_milestone: { milestone_id: "milestoneIds" },
+  get_resume: { variant: "resumeVariants" },
+  get_chief_aim: { principle: "chiefAimPrinciples" },
+  get_claude_project: { name: "claudeProjects" },
+  update_claude_project_file: { project: "claudeProjects", filename: "claudeProjectFiles" },
+  log_interview: { company: "applicationCompanies" },
+};
+
+export function createCompletions(storage: Storage): Completions {
+  // A data file as the tools see it, or undefined if it's missing
+  const readData = async <T>(relativePath: string): Promise<T | undefined> => {
+    if (!(await storage.fileExists(relativePath))) return undefined;
+    return parseDataFile(relativePath, await storage.readFile(relativePath), { redacted: storage.redacted }) as T;
+  };
+
+  const names = async (dir: string, type: "file" | "dir"): Promise<string[]> =>
+    (await storage.listDirectory(dir)).filter(entry => entry.type === type).map(entry => entry.name);
+
+  // Skill categories are the keys holding skill records (skill_levels is metadata)
+  const skillCategories = async (): Promise<Array<[string, Record<string, string>]>> =>
+    Object.entries((await readData<Record<string, unknown>>("profile/skills.json")) ?? {})
+      .filter(([category, skills]) => category !== "skill_levels" && typeof skills === "object" && skills !== null)
+      .map(([category, skills]) => [category, skills as Record<string, string>]);
+
+  const goals = async (year?: string): Promise<GoalsData | undefined> => {
+    if (year && /^\d{4}$/.test(year)) {
+      return readData<GoalsData>(goalsPath(Number(year)));
+    }
+    const current = new Date().getFullYear();
+    const years = await listGoalYears(storage);
+    const latest = years.includes(current) ? current : years[years.length - 1];
+    return latest === undefined ? undefined : readData<GoalsData>(goalsPath(latest));
+  };
+
+  const completions: Completions = {
+    skillCategories: async (value) => matching((await skillCategories()).map(([category]) => category), value),
+    skillNames: async (value, context) => matching(
+      (await skillCategories())
+        .filter(([category]) => !context?.category || category.toLowerCase() === context.category.toLowerCase())
+        .flatMap(([, skills]) => Object.keys(skills)),
+      value
+    ),
+    goalYears: async (value) => matching((await listGoalYears(storage)).reverse().map(String), value),
+    goalIds: async (value, context) => matching(
+      Object.values((await goals(context?.year))?.categories ?? {}).flatMap(category => category.goals.map(goal => goal.id)),
+      value
+    ),
+    goalCategories: async (value, context) => matching(Object.keys((await goals(context?.year))?.categories ?? {}), value),
+    milestoneIds: async (value) => matching(
+      ((await readData<CareerRoadmapData>("career/roadmap.json"))?.career_roadmap.milestones ?? []).map(milestone => milestone.id),
+      value
+    ),
+    resumeVariants: async (value) => matching(
+      ((await readData<ResumeManifest>("profile/resumes/latest-manifest.json"))?.resumes ?? []).map(resume => resume.cluster),
+      value
+    ),
+    chiefAimPrinciples: async (value) => {
+      const chiefAim = await readData<ChiefAimData>("career/chief-aim.json");
+      const principles = Object.keys(chiefAim?.napoleon_hill_principles ?? {});
+      return matching(chiefAim?.career_vision_questions ? [...principles, "career_vision_questions"] : principles, value);
+    },
+    claudeProjects: async (value) => matching(await names(".claude/claude-projects", "dir"), value),
+    claudeProjectFiles: async (value, context) => {
+      const project = context?.name ?? context?.project;
+      if (!project || project.includes("/") || project === "..") return [];
+      return matching(await names(`.claude/claude-projects/${project}`, "file"), value);
+    },
+    journalDates: async (value) => matching(
+      (await listFilesRecursive(storage, "journal/entries"))
+        .map(file => ({ file, date: file.split("/").pop()!.replace(/\.md$/, "") }))
+        .filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(entry.date) && journalEntryPath(entry.date) === entry.file)
+        .map(entry => entry.date)
+        .sort()
+        .reverse(), // Newest first
+      value
+    ),
+    businesses: async (value) => matching(BUSINESSES, value),
+    businessDocs: async (value, context) => {
+      if (!context?.business || !BUSINESSES.includes(context.business)) return [];
+      return matching(
+        (await names(`business/${context.business}`, "file")).flatMap(file => file.match(/^(.+)\.(md|json)$/)?.[1] ?? []),
+        value
+      );
+    },
+    applicationCompanies: async (value) => matching(
+      ((await readData<ApplicationsData>("job-applications/applications.json"))?.applications ?? []).flatMap(application => application.company || []),
+      value
+    ),
+  };
+
+  for (const name of Object.keys(completions) as Array<keyof Completions>) {
+    completions[name] = safely(completions[name]);
+  }
+  return completions;
+}
@@ -0,0 +1,410 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import type { StorageBackend } from "./storage.js";
+import { SCOPES } from "./scopes.js";
+
+// Knowledge base location settings shared by every entry point.
+// Sources, highest priority first: environment variables, the config file, defaults.
+//
+//   STORAGE_BACKEND  local | github | memory
+//   GITHUB_OWNER     owner of the knowledge base repo (default: G-Hensley)
+//   GITHUB_REPO      repo name (default: myself)
+//   GITHUB_BRANCH    branch to read and commit to (default: main)
+//   GITHUB_TOKEN     PAT for private repos and writes (env only, never read from the file)
+//   GITHUB_CACHE_TTL seconds to serve GitHub reads from cache before revalidating (default: 60, 0 disables)
+//   GITHUB_POLL_SECONDS  seconds between checks of the branch head for upstream changes while
+//                    clients are subscribed to resources (default: 60, 0 disables)
+//   KB_ROOT          local knowledge base root (default: current working directory)
+//   KB_LOCK_TIMEOUT  seconds a local write waits for another process's file lock (default: 10)
+//   KB_CONFIG        path to a JSON config file (default: ./myself-mcp.config.json if present)
+//   KB_PEOPLE        JSON object of additional people, same shape as the file's "people" key
+//   MCP_API_KEYS     comma-separated name:key pairs accepted by the HTTP and Vercel endpoints
+//   OAUTH_ISSUER     public base URL of the HTTP server; enables OAuth mode (HTTP server only)
+//   OAUTH_TOKEN_STORE  JSON file for OAuth clients and tokens (default: memory only)
+//   SESSION_STORE    JSON file for MCP sessions on the HTTP endpoints (default: memory only)
+//   SESSION_IDLE_TIMEOUT  seconds an MCP session may go unused before it ends (default: 1800)
+//   READ_ONLY        true to drop every write tool and refuse storage writes (default: false)
+//   CHANGE_HISTORY_DIR  directory for change history files used by undo (default: memory only)
+//   GIT_AUTO_COMMIT  true to commit every write in the local knowledge base's git repo (stdio only, default: false)
+//   REDACT           comma-separated redaction entries applied to every caller, e.g.
+//                    "phone,email,family,financials,salary" (presets in redaction.ts, or field names)
+//
+// The top-level settings describe the default knowledge base. Each entry under
+// "people" is served at /mcp/<person> and inherits any setting it leaves out,
+// except the token: a person's token comes from the env var named by tokenEnv.
+// Each person must end up at a knowledge base of their own; one that resolves to
+// the same local root or GitHub repo and branch as another is rejected.
+//
+// API keys can also be listed in the file under auth.keys as { name, keyEnv, people?, scopes?, redact? }.
+// The key itself always comes from the environment; "people" limits the key to those
+// people's endpoints and "scopes" to those tools (see scopes.ts). Keys without
+// "scopes", including every MCP_API_KEYS key, get all scopes. A key's "redact"
+// entries add to the deployment-wide ones. With no keys configured the HTTP
+// endpoints are open.
+
+const DEFAULT_CONFIG_FILE = "myself-mcp.config.json";
+
+// GitHub allows letters, digits, "-", "_" and "." in owner and repo names
+const githubName = z.string().regex(/^[A-Za-z0-9_.-]+$/, "must contain only letters, digits, '-', '_' or '.'");
+
+// Person names become URL path segments
+const personName = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "must be lowercase letters, digits, '-' or '_'");
+
+const PersonFileSchema = z.object({
+  storageBackend: z.enum(["local", "github", "memory"]).optional(),
+  github: z.object({
+    owner: githubName.optional(),
+    repo: githubName.optional(),
+    branch: z.string().optional(),
+    tokenEnv: z.string().optional(),
+    cacheTtlSeconds: z.number().int().nonnegative().optional(),
+    pollSeconds: z.number().int().nonnegative().optional(),
+  }).strict().optional(),
+  localRoot: z.string().optional(),
+}).strict();
+
+const PeopleFileSchema = z.record(personName, PersonFileSchema);
+
+const scope = z.enum(SCOPES);
+
+const ApiKeyFileSchema = z.object({
+  name: z.string().min(1),
+  keyEnv: z.string().min(1),
+  people: z.array(personName).optional(),
+  scopes: z.array(scope).optional(),
+  redact: z.array(z.string().min(1)).optional(),
+}).strict();
+
+const ConfigFileSchema = z.object({
+  storageBackend: z.enum(["local", "github", "memory"]).optional(),
+  github: z.object({
+    owner: githubName.optional(),
+    repo: githubName.optional(),
+    branch: z.string().optional(),
+    cacheTtlSeconds: z.number().int().nonnegative().optional(),
+    pollSeconds: z.number().int().nonnegative().optional(),
+  }).strict().optional(),
+  localRoot: z.string().optional(),
+  lockTimeoutSeconds: z.number().positive().optional(),
+  people: PeopleFileSchema.optional(),
+  auth: z.object({
+    keys: z.array(ApiKeyFileSchema).optional(),
+  }).strict().optional(),
+  oauth: z.object({
+    issuer: z.string().optional(),
+    tokenStore: z.string().optional(),
+    accessTokenTtlSeconds: z.number().int().positive().optional(),
+    refreshTokenTtlSeconds: z.number().int().positive().optional(),
+  }).strict().optional(),
+  sessions: z.object({
+    store: z.string().optional(),
+    idleTimeoutSeconds: z.number().int().positive().optional(),
+  }).strict().optional(),
+  readOnly: z.boolean().optional(),
+  redact: z.array(z.string().min(1)).optional(),
+  gitAutoCommit: z.boolean().optional(),
+  historyDir: z.string().optional(),
+}).strict();
+
+const KnowledgeBaseSchema = z.object({
+  storageBackend: z.enum(["local", "github", "memory"]),
+  github: z.object({
+    owner: githubName,
+    repo: githubName,
+    branch: z.string().min(1).regex(/^[^\s~^:?*[\\]+$/, "must be a valid git branch name"),
+    token: z.string().min(1).optional(),
+    cacheTtlSeconds: z.number().int().nonnegative(),
+    pollSeconds: z.number().int().nonnegative(),
+  }),
+  localRoot: z.string().min(1),
+  lockTimeoutSeconds: z.number().positive(),
+});
+
+const ApiKeySchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16, "must be at least 16 characters"),
+  people: z.array(personName).optional(),
+  scopes: z.array(scope).optional(),
+  redact: z.array(z.string().min(1)).optional(),
+});
+
+// Where a knowledge base's files live, for spotting two tenants that would share
+// them. In-memory knowledge bases are never shared. GitHub names are case-insensitive.
+function storageLocation(kb: KnowledgeBaseConfig): string | undefined {
+  switch (kb.storageBackend) {
+    case "local":
+      return kb.localRoot;
+    case "github":
+      return `${kb.github.owner.toLowerCase()}/${kb.github.repo.toLowerCase()}@${kb.github.branch}`;
+    case "memory":
+      return undefined;
+  }
+}
+
+const ConfigSchema = KnowledgeBaseSchema.extend({
+  people: z.record(personName, KnowledgeBaseSchema),
+  auth: z.object({
+    keys: z.array(ApiKeySchema),
+  }),
+  oauth: z.object({
+    issuer: z.string().url().refine(url => !url.endsWith("/"), "must not end with '/'"),
+    tokenStorePath: z.string().optional(),
+    accessTokenTtlSeconds: z.number().int().positive(),
+    refreshTokenTtlSeconds: z.number().int().positive(),
+  }).optional(),
+  sessions: z.object({
+    storePath: z.string().optional(),
+    idleTimeoutSeconds: z.number().int().positive(),
+  }),
+  readOnly: z.boolean(),
+  redact: z.array(z.string().min(1)),
+  gitAutoCommit: z.boolean(),
+  historyDir: z.string().optional(),
+}).superRefine((config, ctx) => {
+  // The built-in authorization page signs people in with an API key
+  if (config.oauth && config.auth.keys.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["oauth"], message: "OAuth mode needs at least one API key to approve authorization requests" });
+  }
+
+  const names = new Set<string>();
+  config.auth.keys.forEach((apiKey, index) => {
+    if (names.has(apiKey.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["auth", "keys", index, "name"], message: `duplicate key name "${apiKey.name}"` });
+    }
+    names.add(apiKey.name);
+    for (const person of apiKey.people ?? []) {
+      if (!Object.hasOwn(config.people, person)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["auth", "keys", index, "people"], message: `unknown person "${person}"` });
+      }
+    }
+  });
+
+  // Separate tenants must not read and write the same files
+  const owners = new Map<string, string>();
+  const defaultLocation = storageLocation(config);
+  if (defaultLocation) owners.set(`${config.storageBackend} ${defaultLocation}`, "the default knowledge base");
+  for (const [name, person] of Object.entries(config.people)) {
+    const location = storageLocation(person);
+    if (!location) continue;
+    const key = `${person.storageBackend} ${location}`;
+    const owner = owners.get(key);
+    if (owner) {
+      const setting = person.storageBackend === "local" ? "localRoot" : "github owner, repo or branch";
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["people", name], message: `uses the same knowledge base as ${owner} (${location}); give it its own ${setting}` });
+    } else {
+      owners.set(key, `person "${name}"`);
+    }
+  }
+});
+
+// Where one person's knowledge base lives
+export type KnowledgeBaseConfig = z.infer<typeof KnowledgeBaseSchema>;
+
+// A named credential accepted by the HTTP endpoints
+export type ApiKeyConfig = z.infer<typeof ApiKeySchema>;
+
+export type OAuthConfig = NonNullable<z.infer<typeof ConfigSchema>["oauth"]>;
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n");
+}
+
+// Read the optional JSON config file. An explicit KB_CONFIG must exist; the default is optional.
+function readConfigFile(env: NodeJS.ProcessEnv): { file?: z.infer<typeof ConfigFileSchema>; dir: string } {
+  const explicitPath = env.KB_CONFIG;
+  const filePath = path.resolve(explicitPath || DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(filePath)) {
+    if (explicitPath) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return { dir: process.cwd() };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Config file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${filePath}:\n${formatIssues(parsed.error)}`);
+  }
+  return { file: parsed.data, dir: path.dirname(filePath) };
+}
+
+// Load and validate the configuration. Throws with every problem listed so
+// misconfiguration fails at startup instead of on the first tool call.
+// The default backend depends on the entry point (local for stdio, github for remote).
+export function loadConfig(defaultBackend: StorageBackend, env: NodeJS.ProcessEnv = process.env): Config {
+  const { file, dir } = readConfigFile(env);
+
+  // Relative roots in the config file are relative to the file, not the cwd
+  const localRoot = env.KB_ROOT
+    ? path.resolve(env.KB_ROOT)
+    : file?.localRoot ? path.resolve(dir, file.localRoot) : process.cwd();
+
+  const defaults = {
+    storageBackend: env.STORAGE_BACKEND || file?.storageBackend || defaultBackend,
+    github: {
+      owner: env.GITHUB_OWNER || file?.github?.owner || "G-Hensley",
+      repo: env.GITHUB_REPO || file?.github?.repo || "myself",
+      branch: env.GITHUB_BRANCH || file?.github?.branch || "main",
+      token: env.GITHUB_TOKEN || undefined,
+      cacheTtlSeconds: env.GITHUB_CACHE_TTL ? Number(env.GITHUB_CACHE_TTL) : file?.github?.cacheTtlSeconds ?? 60,
+      pollSeconds: env.GITHUB_POLL_SECONDS ? Number(env.GITHUB_POLL_SECONDS) : file?.github?.pollSeconds ?? 60,
+    },
+    localRoot,
+    lockTimeoutSeconds: env.KB_LOCK_TIMEOUT ? Number(env.KB_LOCK_TIMEOUT) : file?.lockTimeoutSeconds ?? 10,
+  };
+
+  // People from the file and from KB_PEOPLE; KB_PEOPLE wins on name clashes
+  const people: Record<string, unknown> = {};
+  const personSources: Array<[Record<string, z.infer<typeof PersonFileSchema>>, string]> = [
+    [file?.people ?? {}, dir],
+    [readPeopleEnv(env), process.cwd()],
+  ];
+  for (const [entries, baseDir] of personSources) {
+    for (const [name, person] of Object.entries(entries)) {
+      people[name] = {
+        storageBackend: person.storageBackend || defaults.storageBackend,
+        github: {
+          owner: person.github?.owner || defaults.github.owner,
+          repo: person.github?.repo || defaults.github.repo,
+          branch: person.github?.branch || defaults.github.branch,
+          token: person.github?.tokenEnv ? env[person.github.tokenEnv] || undefined : defaults.github.token,
+          cacheTtlSeconds: person.github?.cacheTtlSeconds ?? defaults.github.cacheTtlSeconds,
+          pollSeconds: person.github?.pollSeconds ?? defaults.github.pollSeconds,
+        },
+        localRoot: person.localRoot ? path.resolve(baseDir, person.localRoot) : defaults.localRoot,
+        lockTimeoutSeconds: defaults.lockTimeoutSeconds,
+      };
+    }
+  }
+
+  const keys = [
+    ...(file?.auth?.keys ?? []).map(apiKey => ({
+      name: apiKey.name,
+      key: env[apiKey.keyEnv],
+      people: apiKey.people,
+      scopes: apiKey.scopes,
+      redact: apiKey.redact,
+    })),
+    ...parseApiKeysEnv(env.MCP_API_KEYS),
+  ];
+
+  const oauthIssuer = env.OAUTH_ISSUER || file?.oauth?.issuer;
+  const oauthTokenStore = env.OAUTH_TOKEN_STORE || file?.oauth?.tokenStore;
+  const oauth = oauthIssuer
+    ? {
+      issuer: oauthIssuer,
+      tokenStorePath: env.OAUTH_TOKEN_STORE
+        ? path.resolve(env.OAUTH_TOKEN_STORE)
+        : oauthTokenStore ? path.resolve(dir, oauthTokenStore) : undefined,
+      accessTokenTtlSeconds: file?.oauth?.accessTokenTtlSeconds ?? 3600,
+      refreshTokenTtlSeconds: file?.oauth?.refreshTokenTtlSeconds ?? 30 * 24 * 3600,
+    }
+    : undefined;
+
+  const sessionStore = env.SESSION_STORE || file?.sessions?.store;
+  const sessions = {
+    storePath: env.SESSION_STORE
+      ? path.resolve(env.SESSION_STORE)
+      : sessionStore ? path.resolve(dir, sessionStore) : undefined,
+    idleTimeoutSeconds: env.SESSION_IDLE_TIMEOUT ? Number(env.SESSION_IDLE_TIMEOUT) : file?.sessions?.idleTimeoutSeconds ?? 1800,
+  };
+
+  const readOnly = env.READ_ONLY ? parseFlag("READ_ONLY", env.READ_ONLY) : file?.readOnly ?? false;
+
+  const redact = env.REDACT !== undefined
+    ? env.REDACT.split(",").map(entry => entry.trim()).filter(Boolean)
+    : file?.redact ?? [];
+
+  const gitAutoCommit = env.GIT_AUTO_COMMIT ? parseFlag("GIT_AUTO_COMMIT", env.GIT_AUTO_COMMIT) : file?.gitAutoCommit ?? false;
+
+  const historyDir = env.CHANGE_HISTORY_DIR
+    ? path.resolve(env.CHANGE_HISTORY_DIR)
+    : file?.historyDir ? path.resolve(dir, file.historyDir) : undefined;
+
+  const parsed = ConfigSchema.safeParse({ ...defaults, people, auth: { keys }, oauth, sessions, readOnly, redact, gitAutoCommit, historyDir });
+
+  if (!parsed.success) {
+    throw new Error(`Invalid configuration:\n${formatIssues(parsed.error)}`);
+  }
+
+  const config = parsed.data;
+  const knowledgeBases: Array<[string, KnowledgeBaseConfig]> = [
+    ["localRoot", config],
+    ...Object.entries(config.people).map(([name, person]): [string, KnowledgeBaseConfig] => [`people.${name}.localRoot`, person]),
+  ];
+  for (const [key, kb] of knowledgeBases) {
+    if (kb.storageBackend === "local" && !fs.statSync(kb.localRoot, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`Invalid configuration:\n  - ${key}: ${kb.localRoot} is not a directory`);
+    }
+  }
+
+  return config;
+}
+
+function parseFlag(name: string, value: string): boolean {
+  if (["true", "1", "yes"].includes(value.toLowerCase())) return true;
+  if (["false", "0", "no"].includes(value.toLowerCase())) return false;
+  throw new Error(`Invalid configuration:\n  - ${name}: expected true or false, got "${value}"`);
+}
+
+// "name:key,name2:key2" -> [{ name, key }]. Keys may contain ":" but not ",".
+function parseApiKeysEnv(value: string | undefined): Array<{ name: string; key: string }> {
+  if (!value) return [];
+
+  return value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      throw new Error("Invalid MCP_API_KEYS: each entry must be name:key");
+    }
+    return { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+  });
+}
+
+function readPeopleEnv(env: NodeJS.ProcessEnv): z.infer<typeof PeopleFileSchema> {
+  if (!env.KB_PEOPLE) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.KB_PEOPLE);
+  } catch (error) {
+    throw new Error(`KB_PEOPLE is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = PeopleFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid KB_PEOPLE:\n${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function describeKnowledgeBase(kb: KnowledgeBaseConfig): string {
+  const location = kb.storageBackend === "local"
+    ? kb.localRoot
+    : kb.storageBackend === "github"
+      ? `${kb.github.owner}/${kb.github.repo}@${kb.github.branch}`
+      : "in-memory";
+  return `${kb.storageBackend} (${location})`;
+}
+
+// Summary for startup logs (never includes tokens)
+export function describeConfig(config: Config): string {
+  const lines = [
+    `Mode: ${config.readOnly ? "read-only" : "read-write"}`,
+    `Redaction: ${config.redact.length > 0 ? config.redact.join(", ") : "none"}`,
+    `Knowledge base: ${describeKnowledgeBase(config)}`,
+  ];
+  for (const [name, person] of Object.entries(config.people)) {
+    lines.push(`Knowledge base for ${name}: ${describeKnowledgeBase(person)}`);
+  }
+  return lines.join("\n");
+}
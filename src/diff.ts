@@ -0,0 +1,122 @@
+// Unified diffs for dry-run previews. Knowledge base files are small, so a plain
+// LCS over the lines between the common prefix and suffix is enough.
+
+const CONTEXT_LINES = 3;
+
+// Beyond this many LCS cells the changed region is shown as one replaced block
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffLine {
+  kind: " " | "-" | "+";
+  text: string;
+}
+
+function splitLines(content: string | null): string[] {
+  if (!content) return [];
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Longest-common-subsequence diff of two line arrays
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map(text => ({ kind: "-" as const, text })), ...b.map(text => ({ kind: "+" as const, text }))];
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      lines.push({ kind: "-", text: a[i++] });
+    } else {
+      lines.push({ kind: "+", text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => lines.push({ kind: "-", text }));
+  b.slice(j).forEach(text => lines.push({ kind: "+", text }));
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(text => ({ kind: " " as const, text })),
+    ...lcsDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(text => ({ kind: " " as const, text })),
+  ];
+}
+
+// Unified diff of one file, with /dev/null for a side that doesn't exist.
+// Returns an empty string when the content is the same.
+export function unifiedDiff(filePath: string, before: string | null, after: string | null): string {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changed = lines.flatMap((line, index) => line.kind === " " ? [] : [index]);
+  if (changed.length === 0 && (before === null) === (after === null)) {
+    return "";
+  }
+
+  // Line numbers in the old and new file before each diff line
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldLine.push(oldCount);
+    newLine.push(newCount);
+    if (line.kind !== "+") oldCount++;
+    if (line.kind !== "-") newCount++;
+  }
+  oldLine.push(oldCount);
+  newLine.push(newCount);
+
+  const output = [
+    `--- ${before === null ? "/dev/null" : `a/${filePath}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${filePath}`}`,
+  ];
+
+  // Changes closer than twice the context share a hunk
+  let index = 0;
+  while (index < changed.length) {
+    const start = Math.max(0, changed[index] - CONTEXT_LINES);
+    let last = changed[index];
+    while (index + 1 < changed.length && changed[index + 1] - last <= 2 * CONTEXT_LINES) {
+      last = changed[++index];
+    }
+    const end = Math.min(lines.length, last + CONTEXT_LINES + 1);
+    index++;
+
+    const hunkOld = oldLine[end] - oldLine[start];
+    const hunkNew = newLine[end] - newLine[start];
+    output.push(`@@ -${oldLine[start] + (hunkOld > 0 ? 1 : 0)},${hunkOld} +${newLine[start] + (hunkNew > 0 ? 1 : 0)},${hunkNew} @@`);
+    for (const line of lines.slice(start, end)) {
+      output.push(`${line.kind}${line.text}`);
+    }
+  }
+
+  return output.join("\n");
+}
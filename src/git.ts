@@ -0,0 +1,74 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { UncommittedWriteError, type Storage, type WriteResult } from "./storage.js";
+
+// Local git auto-commit for the stdio server. Every write is staged and committed
+// in the repo holding the knowledge base, using the message the GitHub backend
+// would use as its commit message, so local and remote histories read alike and
+// any change can be reverted with git.
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd });
+  return stdout;
+}
+
+// Throw unless dir is inside a git work tree
+export async function assertGitWorkTree(dir: string): Promise<void> {
+  try {
+    if ((await git(dir, ["rev-parse", "--is-inside-work-tree"])).trim() === "true") {
+      return;
+    }
+  } catch {
+    // Not a repo, or git isn't installed
+  }
+  throw new Error(`Invalid configuration:\n  - gitAutoCommit: ${dir} is not inside a git repository`);
+}
+
+// Wrap a local backend so every successful write is committed. Only the written
+// paths are committed; anything else staged in the repo is left alone.
+export function createGitCommittingStorage(storage: Storage, root: string): Storage {
+  // Commits run one at a time so concurrent tool calls don't race for git's index lock
+  let queue: Promise<void> = Promise.resolve();
+
+  const commit = (written: string[], message: string): Promise<WriteResult> => {
+    const run = queue.then(async (): Promise<WriteResult> => {
+      // A deleted path git never tracked has nothing to commit, and naming it
+      // would fail the add
+      const tracked = new Set((await git(root, ["ls-files", "-z", "--", ...written])).split("\0"));
+      const paths = written.filter(file => tracked.has(file) || fs.existsSync(path.join(root, file)));
+      if (paths.length === 0) {
+        return {};
+      }
+      // Adding a deleted path stages its removal
+      await git(root, ["add", "--", ...paths]);
+      // A write that didn't change the content has nothing to commit
+      if ((await git(root, ["status", "--porcelain", "--", ...paths])).trim() === "") {
+        return {};
+      }
+      await git(root, ["commit", "--quiet", "--only", "-m", message, "--", ...paths]);
+      return { commit: (await git(root, ["rev-parse", "HEAD"])).trim() };
+    });
+    queue = run.then(() => undefined, () => undefined);
+
+    return run.catch(error => {
+      const detail = (error as { stderr?: string }).stderr?.trim() || (error instanceof Error ? error.message : String(error));
+      throw new UncommittedWriteError(written, `the git commit failed: ${detail}`);
+    });
+  };
+
+  return {
+    ...storage,
+    writeFile: async (relativePath, content, message, options) => {
+      await storage.writeFile(relativePath, content, message, options);
+      return commit([relativePath], message);
+    },
+    writeFiles: async (changes, message) => {
+      await storage.writeFiles(changes, message);
+      return commit(changes.map(change => change.path), message);
+    },
+  };
+}
@@ -0,0 +1,344 @@
+import {
+  ConflictError,
+  type CacheStats,
+  type DirectoryEntry,
+  type FileChange,
+  type Storage,
+  type UpstreamChanges,
+  type VersionedContent,
+  type WriteOptions,
+  type WriteResult,
+} from "./storage.js";
+
+export interface GitHubStorageOptions {
+  owner: string;
+  repo: string;
+  branch: string;
+  token?: string; // PAT for private repo access and writes
+  cacheTtlSeconds?: number; // How long reads are served without asking GitHub (0 disables)
+}
+
+interface CacheEntry {
+  status: number;
+  body: string;
+  etag?: string;
+  fetchedAt: number;
+}
+
+// For Vercel/remote deployment: reads and writes through the GitHub Contents API
+export function createGitHubStorage(options: GitHubStorageOptions): Storage {
+  const { owner, repo, branch, token, cacheTtlSeconds = 60 } = options;
+  const repoUrl = `https://api.github.com/repos/${owner}/${repo}`;
+  const contentsUrl = (relativePath: string) => `${repoUrl}/contents/${relativePath}`;
+
+  // How many times a multi-file commit is rebuilt when the branch moves under it
+  const maxCommitAttempts = 3;
+
+  // Read cache keyed by media type and path. Fresh entries are served without a
+  // request; stale ones are revalidated with If-None-Match, and a 304 doesn't
+  // count against the rate limit.
+  const cache = new Map<string, CacheEntry>();
+  const stats = { hits: 0, revalidated: 0, misses: 0 };
+
+  function buildHeaders(accept: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Accept": accept,
+      "X-GitHub-Api-Version": "2022-11-28",
+      "User-Agent": "myself-mcp-server",
+    };
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  // GET a contents URL through the cache. Only 200 responses are cached.
+  async function cachedGet(relativePath: string, accept: string): Promise<{ status: number; body: string }> {
+    const key = `${accept} ${relativePath}`;
+    const cached = cache.get(key);
+    const now = Date.now();
+
+    if (cached && now - cached.fetchedAt < cacheTtlSeconds * 1000) {
+      stats.hits++;
+      return cached;
+    }
+
+    const headers = buildHeaders(accept);
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    }
+
+    const response = await fetch(`${contentsUrl(relativePath)}?ref=${branch}`, { headers });
+    if (response.status === 304 && cached) {
+      stats.revalidated++;
+      cached.fetchedAt = now;
+      return cached;
+    }
+
+    stats.misses++;
+    const entry = { status: response.status, body: await response.text(), etag: response.headers.get("etag") ?? undefined, fetchedAt: now };
+    if (response.ok && cacheTtlSeconds > 0) {
+      cache.set(key, entry);
+    } else {
+      cache.delete(key);
+    }
+    return entry;
+  }
+
+  // Drop everything cached for a path and the listings of its ancestor directories
+  // (a write can create directories) after we change it
+  function invalidate(relativePath: string): void {
+    const parts = relativePath.split("/");
+    const affected = new Set(parts.map((_, index) => parts.slice(0, index).join("/")));
+    affected.add(relativePath);
+    for (const key of cache.keys()) {
+      if (affected.has(key.slice(key.indexOf(" ") + 1))) {
+        cache.delete(key);
+      }
+    }
+  }
+
+  // Helper to fetch files from GitHub API (supports private repos with PAT).
+  // The contents metadata carries the blob SHA alongside the content, so the SHA a
+  // tool read is the one its write is checked against.
+  async function readVersioned(relativePath: string): Promise<VersionedContent> {
+    const response = await cachedGet(relativePath, "application/vnd.github.v3+json");
+    if (response.status !== 200) {
+      console.error(`GitHub API error for ${relativePath}: ${response.status} - ${response.body}`);
+      throw new Error(`Failed to fetch ${relativePath}: ${response.status}`);
+    }
+
+    const data = JSON.parse(response.body) as { sha?: string; content?: string; encoding?: string };
+    if (Array.isArray(data) || !data.sha) {
+      throw new Error(`Failed to fetch ${relativePath}: not a file`);
+    }
+
+    // Files over 1 MB come back without inline content
+    if (data.encoding !== "base64" || data.content === undefined) {
+      const raw = await cachedGet(relativePath, "application/vnd.github.raw+json");
+      if (raw.status !== 200) {
+        throw new Error(`Failed to fetch ${relativePath}: ${raw.status}`);
+      }
+      return { content: raw.body, version: data.sha };
+    }
+
+    return { content: Buffer.from(data.content, "base64").toString("utf-8"), version: data.sha };
+  }
+
+  // Helper to get file SHA (required for updates via GitHub API)
+  // Returns undefined if file doesn't exist (allows creating new files).
+  // Writes pass fresh so they never update against a cached SHA.
+  async function getFileSha(relativePath: string, fresh = false): Promise<string | undefined> {
+    if (fresh) {
+      invalidate(relativePath);
+    }
+    const response = await cachedGet(relativePath, "application/vnd.github.v3+json");
+    if (response.status !== 200) {
+      // 404 means file doesn't exist - that's OK for creating new files
+      if (response.status === 404) {
+        return undefined;
+      }
+      throw new Error(`Failed to get SHA for ${relativePath}: ${response.status}`);
+    }
+    const data = JSON.parse(response.body) as { sha: string };
+    return data.sha;
+  }
+
+  // Helper to write files to GitHub via Contents API
+  // Supports both creating new files and updating existing files. With an expected
+  // version the PUT sends that SHA, and GitHub rejects it if the file has moved on.
+  async function writeFile(relativePath: string, content: string, message: string, options: WriteOptions = {}): Promise<WriteResult> {
+    if (!token) {
+      throw new Error("GITHUB_TOKEN not configured - cannot write to repository");
+    }
+
+    // Otherwise use the current file SHA (undefined if file doesn't exist)
+    const sha = options.expectedVersion !== undefined
+      ? options.expectedVersion ?? undefined
+      : await getFileSha(relativePath, true);
+
+    // Build request body - only include SHA if updating existing file
+    const requestBody: Record<string, string> = {
+      message,
+      content: Buffer.from(content, "utf-8").toString("base64"),
+      branch,
+    };
+
+    if (sha) {
+      requestBody.sha = sha;
+    }
+
+    const response = await fetch(contentsUrl(relativePath), {
+      method: "PUT",
+      headers: { ...buildHeaders("application/vnd.github.v3+json"), "Content-Type": "application/json" },
+      body: JSON.stringify(requestBody),
+    });
+
+    // Whatever happened, our cached copy may now be wrong
+    invalidate(relativePath);
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`GitHub API write error for ${relativePath}: ${response.status} - ${errorBody}`);
+      // 409: the SHA is stale. 422: a SHA was expected (file exists) or doesn't match.
+      if (response.status === 409 || (response.status === 422 && options.expectedVersion !== undefined)) {
+        throw new ConflictError(relativePath);
+      }
+      throw new Error(`Failed to write ${relativePath}: ${response.status}`);
+    }
+
+    console.error(`Successfully ${sha ? "updated" : "created"} ${relativePath}`);
+    const result = await response.json() as { commit?: { sha?: string } };
+    return { commit: result.commit?.sha };
+  }
+
+  // Call the Git Data API, throwing on anything but the expected status
+  async function gitRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${repoUrl}/git/${path}`, {
+      method,
+      headers: { ...buildHeaders("application/vnd.github.v3+json"), "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`GitHub API error for ${method} git/${path}: ${response.status} - ${errorBody}`);
+      throw Object.assign(new Error(`GitHub ${method} git/${path} failed: ${response.status}`), { status: response.status });
+    }
+    return await response.json() as T;
+  }
+
+  // Blob SHA of a file at a given commit, or null if it doesn't exist there.
+  // Uncached: it checks expected versions right before committing.
+  async function blobShaAt(relativePath: string, commitSha: string): Promise<string | null> {
+    const response = await fetch(`${contentsUrl(relativePath)}?ref=${commitSha}`, {
+      headers: buildHeaders("application/vnd.github.v3+json"),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to get SHA for ${relativePath}: ${response.status}`);
+    }
+    return ((await response.json()) as { sha: string }).sha;
+  }
+
+  // Commit several files at once through the Git Data API: build a tree on top of
+  // the branch head, commit it, then fast-forward the branch. If the branch moved
+  // in between, the ref update is rejected and the whole commit is rebuilt on the
+  // new head (re-checking expected versions), so nothing is ever half-applied.
+  async function writeFiles(changes: FileChange[], message: string): Promise<WriteResult> {
+    if (!token) {
+      throw new Error("GITHUB_TOKEN not configured - cannot write to repository");
+    }
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const ref = await gitRequest<{ object: { sha: string } }>("GET", `ref/heads/${branch}`);
+        const headSha = ref.object.sha;
+        const head = await gitRequest<{ tree: { sha: string } }>("GET", `commits/${headSha}`);
+
+        for (const change of changes) {
+          if (change.expectedVersion !== undefined && await blobShaAt(change.path, headSha) !== change.expectedVersion) {
+            throw new ConflictError(change.path);
+          }
+        }
+
+        const tree = await gitRequest<{ sha: string }>("POST", "trees", {
+          base_tree: head.tree.sha,
+          // A null SHA removes the file from the tree
+          tree: changes.map(change => change.content === null
+            ? { path: change.path, mode: "100644", type: "blob", sha: null }
+            : { path: change.path, mode: "100644", type: "blob", content: change.content }),
+        });
+        const commit = await gitRequest<{ sha: string }>("POST", "commits", {
+          message,
+          tree: tree.sha,
+          parents: [headSha],
+        });
+
+        try {
+          await gitRequest("PATCH", `refs/heads/${branch}`, { sha: commit.sha, force: false });
+        } catch (error) {
+          // 422: not a fast-forward, someone else committed first
+          if ((error as { status?: number }).status === 422 && attempt < maxCommitAttempts) {
+            continue;
+          }
+          throw error;
+        }
+
+        console.error(`Successfully committed ${changes.map(change => change.path).join(", ")}`);
+        return { commit: commit.sha };
+      }
+    } finally {
+      changes.forEach(change => invalidate(change.path));
+    }
+  }
+
+  // True for directories too, as on the other backends. The contents metadata for
+  // a directory is an array of its entries, with no SHA of its own.
+  async function fileExists(relativePath: string): Promise<boolean> {
+    const response = await cachedGet(relativePath, "application/vnd.github.v3+json");
+    if (response.status === 404) {
+      return false;
+    }
+    if (response.status !== 200) {
+      throw new Error(`Failed to check ${relativePath}: ${response.status}`);
+    }
+    return true;
+  }
+
+  // Helper to list directory contents from GitHub
+  async function listDirectory(relativePath: string): Promise<DirectoryEntry[]> {
+    const response = await cachedGet(relativePath, "application/vnd.github.v3+json");
+    if (response.status !== 200) {
+      if (response.status === 404) {
+        return []; // Directory doesn't exist
+      }
+      throw new Error(`Failed to list directory ${relativePath}: ${response.status}`);
+    }
+
+    const data = JSON.parse(response.body) as Array<{ name: string; type: string; path: string }>;
+    return data.map(item => ({
+      name: item.name,
+      type: item.type === "dir" ? "dir" : "file",
+      path: item.path,
+    }));
+  }
+
+  // Commits and files on the branch since a head seen earlier. Cached reads of
+  // those files are dropped so the next read sees the upstream change. GitHub
+  // lists at most 300 files per comparison.
+  async function changesSince(since?: string): Promise<UpstreamChanges> {
+    const ref = await gitRequest<{ object: { sha: string } }>("GET", `ref/heads/${branch}`);
+    const head = ref.object.sha;
+    if (!since || since === head) {
+      return { head, commits: [], paths: [] };
+    }
+
+    const response = await fetch(`${repoUrl}/compare/${since}...${head}`, {
+      headers: buildHeaders("application/vnd.github.v3+json"),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to compare ${since}...${head}: ${response.status}`);
+    }
+    const data = await response.json() as {
+      commits?: Array<{ sha: string }>;
+      files?: Array<{ filename: string; previous_filename?: string }>;
+    };
+    const paths = (data.files ?? []).flatMap(file => file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]);
+    paths.forEach(invalidate);
+    return { head, commits: (data.commits ?? []).map(commit => commit.sha), paths };
+  }
+
+  return {
+    readFile: async (relativePath) => (await readVersioned(relativePath)).content,
+    readVersioned,
+    writeFile,
+    writeFiles,
+    listDirectory,
+    fileExists,
+    cacheStats: (): CacheStats => ({ ...stats, entries: cache.size }),
+    changesSince,
+  };
+}
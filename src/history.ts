@@ -0,0 +1,83 @@
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+// Change history for write tools. Every write tool call that changes the knowledge
+// base is recorded with each file's content before and after, so undo_last_change
+// and revert_change can put it back through the storage layer on any backend.
+
+// Changes kept per knowledge base; older ones can only be undone with git
+export const MAX_CHANGES = 50;
+
+export interface ChangedFile {
+  path: string;
+  before: string | null; // null: the change created the file
+  after: string | null; // null: the change deleted the file
+}
+
+export interface ChangeEntry {
+  id: string;
+  time: string; // ISO timestamp
+  tool: string;
+  arguments: Record<string, unknown>;
+  message: string; // Commit message of each write, joined
+  commits: string[]; // Commit SHAs, for backends that make commits
+  files: ChangedFile[];
+  revertOf?: string; // The change this one reverted
+  revertedBy?: string; // The change that reverted this one
+}
+
+// Recent changes to one knowledge base, newest first
+export interface ChangeLog {
+  record: (entry: ChangeEntry) => Promise<void>;
+  list: () => Promise<ChangeEntry[]>;
+  get: (id: string) => Promise<ChangeEntry | undefined>;
+}
+
+export function newChangeId(): string {
+  return `chg-${Date.now()}-${randomBytes(3).toString("hex")}`;
+}
+
+// Both stores share this logic; load and persist decide where entries live
+function createChangeLogFrom(load: () => ChangeEntry[], persist: (entries: ChangeEntry[]) => void): ChangeLog {
+  return {
+    record: async (entry) => {
+      const entries = load();
+      if (entry.revertOf) {
+        const original = entries.find(existing => existing.id === entry.revertOf);
+        if (original) original.revertedBy = entry.id;
+      }
+      entries.unshift(entry);
+      entries.splice(MAX_CHANGES);
+      persist(entries);
+    },
+    list: async () => load(),
+    get: async (id) => load().find(entry => entry.id === id),
+  };
+}
+
+// History is lost on restart, and with stateless HTTP it only spans one process
+export function createMemoryChangeLog(): ChangeLog {
+  const entries: ChangeEntry[] = [];
+  return createChangeLogFrom(() => entries, () => {});
+}
+
+// Keeps history in a JSON file readable only by the server's user (it holds file
+// contents). The file is re-read on every call so several processes can share it.
+export function createFileChangeLog(filePath: string): ChangeLog {
+  return createChangeLogFrom(
+    () => fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, "utf-8")) as ChangeEntry[] : [],
+    (entries) => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2) + "\n", { mode: 0o600 });
+      fs.renameSync(tempPath, filePath);
+    },
+  );
+}
+
+// History for one knowledge base: <historyDir>/<name>.json when a directory is
+// configured, memory otherwise
+export function createChangeLog(historyDir: string | undefined, name: string): ChangeLog {
+  return historyDir ? createFileChangeLog(path.join(historyDir, `${name}.json`)) : createMemoryChangeLog();
+}
@@ -0,0 +1,52 @@
+import type { Storage } from "./storage.js";
+
+// Where things live in the knowledge base. Shared by the tools, resources,
+// prompts and completions.
+
+// Businesses with their own folders under business/ and ideas/business/
+export const BUSINESSES = ["codaissance", "tampertantrum-labs"];
+
+// Lowercase month name for a 1-based month, as used in journal folder names
+export function getMonthName(month: number): string {
+  const months = [
+    "january", "february", "march", "april", "may", "june",
+    "july", "august", "september", "october", "november", "december"
+  ];
+  return months[month - 1];
+}
+
+// Every file under a directory, depth first
+export async function listFilesRecursive(storage: Storage, dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await storage.listDirectory(dir)) {
+    if (entry.type === "dir") {
+      files.push(...await listFilesRecursive(storage, entry.path));
+    } else {
+      files.push(entry.path);
+    }
+  }
+  return files;
+}
+
+// Goals live in one file per year
+export function goalsPath(year: number): string {
+  return `profile/goals/${year}-goals.json`;
+}
+
+// Years that have a goals file, oldest first
+export async function listGoalYears(storage: Storage): Promise<number[]> {
+  return (await storage.listDirectory("profile/goals"))
+    .map(entry => entry.type === "file" ? entry.name.match(/^(\d{4})-goals\.json$/) : null)
+    .flatMap(match => match ? [Number(match[1])] : [])
+    .sort((a, b) => a - b);
+}
+
+// Where a journal entry for a YYYY-MM-DD date belongs, or undefined if it isn't a real date
+export function journalEntryPath(date: string): string | undefined {
+  const [year, month, day] = date.split("-").map(Number);
+  const dateObj = new Date(year, month - 1, day);
+  if (dateObj.getFullYear() !== year || dateObj.getMonth() !== month - 1 || dateObj.getDate() !== day) {
+    return undefined;
+  }
+  return `journal/entries/${year}/${month.toString().padStart(2, "0")}-${getMonthName(month)}/${date}.md`;
+}
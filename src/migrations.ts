@@ -0,0 +1,87 @@
+// Data file migrations. Every data file carries a schema_version; files written
+// before versioning count as version 1. Each migration upgrades the files it
+// applies to by one version. Reads run whatever migrations a file is missing, so
+// tools always see the current shape, and migrate_knowledge_base writes the
+// upgrade back.
+
+export interface Migration {
+  files: RegExp; // Paths, relative to the knowledge base root, this migration applies to
+  version: number; // The version a file has after this migration
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Oldest first within each file pattern
+export const MIGRATIONS: Migration[] = [
+  {
+    // add_certification used to keep course certificates in their own list
+    files: /^profile\/education\.json$/,
+    version: 2,
+    description: "Merge certificates into certifications, marking each entry with a type",
+    migrate: (data) => {
+      const { certificates, ...rest } = data;
+      if (rest.certifications !== undefined && !Array.isArray(rest.certifications)) {
+        return data;
+      }
+      const withType = (type: string) => (entry: unknown) =>
+        isObject(entry) && entry.type === undefined ? { ...entry, type } : entry;
+      return {
+        ...rest,
+        certifications: [
+          ...((rest.certifications as unknown[] | undefined) ?? []).map(withType("certification")),
+          ...(Array.isArray(certificates) ? certificates.map(withType("certificate")) : []),
+        ],
+      };
+    },
+  },
+  {
+    // Early versions of the job monitor wrote the list as jobs
+    files: /^job-applications\/opportunities\/latest\.json$/,
+    version: 2,
+    description: "Rename jobs to top_jobs",
+    migrate: (data) => {
+      if (data.top_jobs !== undefined || data.jobs === undefined) {
+        return data;
+      }
+      const { jobs, ...rest } = data;
+      return { ...rest, top_jobs: jobs };
+    },
+  },
+];
+
+// The version a file at this path is written in today
+export function currentSchemaVersion(relativePath: string): number {
+  return Math.max(1, ...MIGRATIONS.filter(migration => migration.files.test(relativePath)).map(migration => migration.version));
+}
+
+export interface MigrationResult {
+  data: unknown;
+  from: number; // The file's version as stored
+  to: number; // The current version for its path
+  applied: Migration[];
+}
+
+// Bring parsed file data up to the current version for its path and stamp
+// schema_version on it. Anything but an object, and files newer than this server
+// knows, are returned unchanged (from > to tells the caller).
+export function migrateDataFile(relativePath: string, data: unknown): MigrationResult {
+  const to = currentSchemaVersion(relativePath);
+  if (!isObject(data)) {
+    return { data, from: to, to, applied: [] };
+  }
+
+  const from = typeof data.schema_version === "number" ? data.schema_version : 1;
+  if (from > to || (from === to && data.schema_version !== undefined)) {
+    return { data, from, to, applied: [] };
+  }
+
+  const applied = MIGRATIONS
+    .filter(migration => migration.files.test(relativePath) && migration.version > from)
+    .sort((a, b) => a.version - b.version);
+  const { schema_version: _, ...migrated } = applied.reduce((current, migration) => migration.migrate(current), data);
+  return { data: { schema_version: to, ...migrated }, from, to, applied };
+}
@@ -0,0 +1,719 @@
+import type * as http from "http";
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  OAuthClientMetadataSchema,
+  type OAuthClientInformationFull,
+  type OAuthMetadata,
+  type OAuthProtectedResourceMetadata,
+  type OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  OAuthError,
+  AccessDeniedError,
+  InvalidClientError,
+  InvalidClientMetadataError,
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidScopeError,
+  InvalidTargetError,
+  ServerError,
+  UnsupportedGrantTypeError,
+  UnsupportedResponseTypeError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { ApiKeyConfig, OAuthConfig } from "./config.js";
+import { matchApiKey, type Credential } from "./auth.js";
+import { SCOPES, isScope, type Scope } from "./scopes.js";
+
+// Optional OAuth 2.1 mode for the HTTP server, following the MCP authorization spec:
+// protected resource metadata (RFC 9728), authorization server metadata (RFC 8414),
+// dynamic client registration (RFC 7591), authorization code + PKCE, refresh token
+// rotation, revocation (RFC 7009) and resource indicators (RFC 8707).
+//
+// This server is its own authorization server. Who may approve a grant is decided
+// by an IdentityProvider; the built-in one asks for one of the configured API keys,
+// so the whole flow runs locally with no external identity provider.
+
+const AUTHORIZATION_CODE_TTL_SECONDS = 600;
+
+// ===== Token store =====
+
+export interface StoredToken {
+  kind: "access" | "refresh";
+  clientId: string;
+  subject: string; // Name of the credential that approved the grant
+  grantId?: string; // Shared by every token from one authorization; refreshes keep it
+  people?: string[];
+  scopes: Scope[];
+  redact?: string[];
+  resource: string;
+  expiresAt: number; // Seconds since epoch
+}
+
+// Clients and tokens issued by the authorization server. Tokens are stored by
+// SHA-256 hash so a leaked store doesn't leak usable tokens.
+export interface TokenStore {
+  getClient: (clientId: string) => Promise<OAuthClientInformationFull | undefined>;
+  saveClient: (client: OAuthClientInformationFull) => Promise<void>;
+  getToken: (tokenHash: string) => Promise<StoredToken | undefined>;
+  saveToken: (tokenHash: string, token: StoredToken) => Promise<void>;
+  deleteToken: (tokenHash: string) => Promise<void>;
+}
+
+interface TokenStoreData {
+  clients: Record<string, OAuthClientInformationFull>;
+  tokens: Record<string, StoredToken>;
+}
+
+function createTokenStoreFromData(data: TokenStoreData, persist: (data: TokenStoreData) => void): TokenStore {
+  return {
+    getClient: async (clientId) => Object.hasOwn(data.clients, clientId) ? data.clients[clientId] : undefined,
+    saveClient: async (client) => {
+      data.clients[client.client_id] = client;
+      persist(data);
+    },
+    getToken: async (tokenHash) => Object.hasOwn(data.tokens, tokenHash) ? data.tokens[tokenHash] : undefined,
+    saveToken: async (tokenHash, token) => {
+      // Drop expired tokens whenever the store changes so it doesn't grow forever
+      const now = Math.floor(Date.now() / 1000);
+      for (const [hash, stored] of Object.entries(data.tokens)) {
+        if (stored.expiresAt <= now) delete data.tokens[hash];
+      }
+      data.tokens[tokenHash] = token;
+      persist(data);
+    },
+    deleteToken: async (tokenHash) => {
+      delete data.tokens[tokenHash];
+      persist(data);
+    },
+  };
+}
+
+// Tokens are lost on restart; clients have to authorize again
+export function createMemoryTokenStore(): TokenStore {
+  return createTokenStoreFromData({ clients: {}, tokens: {} }, () => {});
+}
+
+// Keeps clients and token hashes in a JSON file readable only by the server's user
+export function createFileTokenStore(filePath: string): TokenStore {
+  let data: TokenStoreData = { clients: {}, tokens: {} };
+  if (fs.existsSync(filePath)) {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as TokenStoreData;
+  }
+
+  return createTokenStoreFromData(data, (current) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(current, null, 2) + "\n", { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+  });
+}
+
+// ===== Identity provider =====
+
+// Decides who is approving an authorization request on the consent page
+export interface IdentityProvider {
+  // Extra form fields rendered on the consent page
+  formFieldsHtml: string;
+  // Returns the approving identity, or undefined if the form doesn't authenticate.
+  // Tokens never get more people or scopes, or less redaction, than the identity
+  // that approved them.
+  authenticate: (form: URLSearchParams) => Promise<{ subject: string; people?: string[]; scopes?: Scope[]; redact?: string[] } | undefined>;
+}
+
+// Approve with one of the configured API keys. The key's name becomes the token's
+// subject and its people, scope and redaction restrictions carry over to the token.
+export function createApiKeyIdentityProvider(keys: ApiKeyConfig[]): IdentityProvider {
+  return {
+    formFieldsHtml: `<label>API key <input type="password" name="api_key" autocomplete="current-password" required></label>`,
+    authenticate: async (form) => {
+      const presented = form.get("api_key");
+      const apiKey = presented ? matchApiKey(presented, keys) : undefined;
+      return apiKey && { subject: apiKey.name, people: apiKey.people, scopes: apiKey.scopes, redact: apiKey.redact };
+    },
+  };
+}
+
+// ===== HTTP helpers =====
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const digestA = createHash("sha256").update(a).digest();
+  const digestB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+async function readBody(req: http.IncomingMessage, limit = 64 * 1024): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > limit) {
+      throw new InvalidRequestError("Request body too large");
+    }
+  }
+  return body;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendOAuthError(res: http.ServerResponse, error: OAuthError): void {
+  const status = error instanceof InvalidClientError ? 401 : error instanceof ServerError ? 500 : 400;
+  sendJson(res, status, error.toResponseObject());
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Only https redirect URIs, plus http on loopback for local clients
+function isAllowedRedirectUri(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    if (url.protocol === "https:") return true;
+    return url.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ===== Authorization server =====
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  subject: string;
+  people?: string[];
+  scopes: Scope[];
+  redact?: string[];
+  resource: string;
+  expiresAt: number;
+}
+
+// A validated authorization request. No requested scopes means "everything the
+// approving identity has".
+interface AuthorizationRequest {
+  client: OAuthClientInformationFull;
+  redirectUri: string;
+  codeChallenge: string;
+  state?: string;
+  scopes: Scope[];
+  resource: string;
+}
+
+export interface OAuthServerOptions {
+  config: OAuthConfig;
+  people: string[];
+  tokenStore: TokenStore;
+  identityProvider: IdentityProvider;
+}
+
+export interface OAuthServer {
+  // Serves the OAuth endpoints. Returns false for requests it doesn't own.
+  handleRequest: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean>;
+  // Resolve an access token presented to an MCP endpoint ("/mcp" or "/mcp/<person>")
+  verifyAccessToken: (token: string, mcpPath: string) => Promise<Credential | undefined>;
+  // Where clients discover how to get a token for an MCP endpoint
+  resourceMetadataUrl: (mcpPath: string) => string;
+}
+
+export function createOAuthServer(options: OAuthServerOptions): OAuthServer {
+  const { config, people, tokenStore, identityProvider } = options;
+  const issuer = config.issuer;
+  const codes = new Map<string, AuthorizationCode>();
+
+  // Every MCP endpoint is its own resource, so a token for one person's knowledge
+  // base can't be replayed against another's
+  const mcpPaths = ["/mcp", ...people.map(person => `/mcp/${person}`)];
+  const resourceUrl = (mcpPath: string) => `${issuer}${mcpPath}`;
+  const resources = new Set(mcpPaths.map(resourceUrl));
+
+  const authorizationServerMetadata: OAuthMetadata = {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    registration_endpoint: `${issuer}/register`,
+    revocation_endpoint: `${issuer}/revoke`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    code_challenge_methods_supported: ["S256"],
+    scopes_supported: [...SCOPES],
+    token_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+    revocation_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+  };
+
+  function protectedResourceMetadata(mcpPath: string): OAuthProtectedResourceMetadata {
+    return {
+      resource: resourceUrl(mcpPath),
+      authorization_servers: [issuer],
+      bearer_methods_supported: ["header"],
+      scopes_supported: [...SCOPES],
+      resource_name: "Myself Knowledge Base",
+    };
+  }
+
+  // Resource indicator from a request, defaulting to the main endpoint. Trailing
+  // slashes are ignored so "/mcp/" and "/mcp" name the same resource.
+  function resolveResource(value: string | null): string {
+    const resource = (value ?? resourceUrl("/mcp")).replace(/\/+$/, "");
+    if (!resources.has(resource)) {
+      throw new InvalidTargetError(`Unknown resource: ${resource}`);
+    }
+    return resource;
+  }
+
+  // Client authentication for the token and revocation endpoints. Public clients
+  // (token_endpoint_auth_method "none") only identify themselves.
+  async function authenticateClient(req: http.IncomingMessage, form: URLSearchParams): Promise<OAuthClientInformationFull> {
+    let clientId = form.get("client_id");
+    let clientSecret = form.get("client_secret");
+
+    const authorization = req.headers["authorization"];
+    if (typeof authorization === "string" && authorization.toLowerCase().startsWith("basic ")) {
+      const decoded = Buffer.from(authorization.slice(6).trim(), "base64").toString("utf-8");
+      const separator = decoded.indexOf(":");
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    }
+
+    if (!clientId) {
+      throw new InvalidClientError("Missing client_id");
+    }
+    const client = await tokenStore.getClient(clientId);
+    if (!client) {
+      throw new InvalidClientError("Unknown client");
+    }
+    if (client.client_secret && (!clientSecret || !safeEqual(clientSecret, client.client_secret))) {
+      throw new InvalidClientError("Invalid client credentials");
+    }
+    return client;
+  }
+
+  async function issueTokens(grant: Omit<StoredToken, "kind" | "expiresAt">): Promise<OAuthTokens> {
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = generateToken();
+    const refreshToken = generateToken();
+
+    await tokenStore.saveToken(hashToken(accessToken), {
+      ...grant,
+      kind: "access",
+      expiresAt: now + config.accessTokenTtlSeconds,
+    });
+    await tokenStore.saveToken(hashToken(refreshToken), {
+      ...grant,
+      kind: "refresh",
+      expiresAt: now + config.refreshTokenTtlSeconds,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: config.accessTokenTtlSeconds,
+      refresh_token: refreshToken,
+      scope: grant.scopes.join(" "),
+    };
+  }
+
+  // Validate the authorization request parameters. Errors thrown before the
+  // redirect URI is known to be registered must not redirect, so they are
+  // reported with redirectable = false.
+  async function parseAuthorizationRequest(params: URLSearchParams): Promise<AuthorizationRequest> {
+    const clientId = params.get("client_id");
+    const client = clientId ? await tokenStore.getClient(clientId) : undefined;
+    if (!client) {
+      throw Object.assign(new InvalidClientError("Unknown client"), { redirectable: false });
+    }
+
+    const redirectUri = params.get("redirect_uri") ?? (client.redirect_uris.length === 1 ? client.redirect_uris[0] : null);
+    if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+      throw Object.assign(new InvalidRequestError("Unregistered redirect_uri"), { redirectable: false });
+    }
+
+    const state = params.get("state") ?? undefined;
+    const fail = (error: OAuthError) => Object.assign(error, { redirectUri, state });
+
+    if (params.get("response_type") !== "code") {
+      throw fail(new UnsupportedResponseTypeError("response_type must be code"));
+    }
+
+    const codeChallenge = params.get("code_challenge");
+    if (!codeChallenge || params.get("code_challenge_method") !== "S256") {
+      throw fail(new InvalidRequestError("PKCE with code_challenge_method S256 is required"));
+    }
+
+    let resource: string;
+    try {
+      resource = resolveResource(params.get("resource"));
+    } catch (error) {
+      throw fail(error as OAuthError);
+    }
+
+    let scopes: Scope[];
+    try {
+      scopes = parseScopes(params.get("scope"));
+    } catch (error) {
+      throw fail(error as OAuthError);
+    }
+
+    return { client, redirectUri, codeChallenge, state, scopes, resource };
+  }
+
+  function parseScopes(value: string | null): Scope[] {
+    const requested = value ? value.split(" ").filter(Boolean) : [];
+    const unknown = requested.filter(scope => !isScope(scope));
+    if (unknown.length > 0) {
+      throw new InvalidScopeError(`Unknown scope: ${unknown.join(", ")}`);
+    }
+    return requested as Scope[];
+  }
+
+  function redirectWithParams(res: http.ServerResponse, redirectUri: string, params: Record<string, string | undefined>): void {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    res.writeHead(302, { Location: url.toString(), "Cache-Control": "no-store" });
+    res.end();
+  }
+
+  // Report an authorization error: back to the client when its redirect URI is
+  // trusted, otherwise as a plain error page
+  function sendAuthorizationError(res: http.ServerResponse, error: unknown): void {
+    const oauthError = error instanceof OAuthError ? error : new ServerError("Internal error");
+    const { redirectUri, state, redirectable } = oauthError as OAuthError & { redirectUri?: string; state?: string; redirectable?: boolean };
+
+    if (redirectable !== false && redirectUri) {
+      redirectWithParams(res, redirectUri, {
+        error: oauthError.errorCode,
+        error_description: oauthError.message,
+        state,
+        iss: issuer,
+      });
+      return;
+    }
+
+    res.writeHead(400, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(`<!doctype html><title>Authorization error</title><p>${escapeHtml(oauthError.message)}</p>`);
+  }
+
+  function renderConsentPage(res: http.ServerResponse, params: URLSearchParams, request: AuthorizationRequest, message?: string): void {
+    const hiddenFields = [...params.entries()]
+      .filter(([key]) => key !== "api_key" && key !== "decision")
+      .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+      .join("\n");
+    const clientName = request.client.client_name || request.client.client_id;
+
+    res.writeHead(message ? 401 : 200, {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Frame-Options": "DENY",
+    });
+    res.end(`<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Authorize ${escapeHtml(clientName)}</title></head>
+<body>
+<h1>Authorize ${escapeHtml(clientName)}</h1>
+<p>${escapeHtml(clientName)} is asking for access to ${escapeHtml(request.resource)}${request.scopes.length > 0 ? ` with scopes: ${escapeHtml(request.scopes.join(", "))}` : ""}.</p>
+${message ? `<p><strong>${escapeHtml(message)}</strong></p>` : ""}
+<form method="post" action="${escapeHtml(authorizationServerMetadata.authorization_endpoint)}">
+${hiddenFields}
+${identityProvider.formFieldsHtml}
+<button type="submit" name="decision" value="approve">Approve</button>
+<button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+</form>
+</body>
+</html>
+`);
+  }
+
+  // GET shows the consent page; POST is the consent page submitting
+  async function handleAuthorize(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    const params = req.method === "POST" ? new URLSearchParams(await readBody(req)) : url.searchParams;
+
+    let request: AuthorizationRequest;
+    try {
+      request = await parseAuthorizationRequest(params);
+    } catch (error) {
+      sendAuthorizationError(res, error);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      renderConsentPage(res, params, request);
+      return;
+    }
+
+    const fail = (error: OAuthError) => Object.assign(error, { redirectUri: request.redirectUri, state: request.state });
+    if (params.get("decision") !== "approve") {
+      sendAuthorizationError(res, fail(new AccessDeniedError("The user denied the request")));
+      return;
+    }
+
+    const identity = await identityProvider.authenticate(params);
+    if (!identity) {
+      renderConsentPage(res, params, request, "Sign-in failed. Check the key and try again.");
+      return;
+    }
+
+    // A credential limited to some people can't approve access to anyone else's knowledge base
+    const person = mcpPaths.find(mcpPath => resourceUrl(mcpPath) === request.resource)?.split("/")[2];
+    if (identity.people && (person === undefined || !identity.people.includes(person))) {
+      sendAuthorizationError(res, fail(new AccessDeniedError(`"${identity.subject}" can't approve access to this knowledge base`)));
+      return;
+    }
+
+    // Grant what was asked for, limited to what the approving identity holds
+    const available = identity.scopes ?? [...SCOPES];
+    const scopes = request.scopes.length > 0
+      ? request.scopes.filter(scope => available.includes(scope))
+      : available;
+    if (scopes.length === 0) {
+      sendAuthorizationError(res, fail(new InvalidScopeError(`"${identity.subject}" holds none of the requested scopes`)));
+      return;
+    }
+
+    const code = generateToken();
+    codes.set(hashToken(code), {
+      clientId: request.client.client_id,
+      redirectUri: request.redirectUri,
+      codeChallenge: request.codeChallenge,
+      subject: identity.subject,
+      people: identity.people,
+      scopes,
+      redact: identity.redact,
+      resource: request.resource,
+      expiresAt: Math.floor(Date.now() / 1000) + AUTHORIZATION_CODE_TTL_SECONDS,
+    });
+
+    redirectWithParams(res, request.redirectUri, { code, state: request.state, iss: issuer });
+  }
+
+  async function handleToken(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const form = new URLSearchParams(await readBody(req));
+    const client = await authenticateClient(req, form);
+    const now = Math.floor(Date.now() / 1000);
+
+    switch (form.get("grant_type")) {
+      case "authorization_code": {
+        const code = form.get("code");
+        const codeHash = code ? hashToken(code) : undefined;
+        const grant = codeHash ? codes.get(codeHash) : undefined;
+        // Codes are single use, even when the exchange fails
+        if (codeHash) codes.delete(codeHash);
+
+        if (!grant || grant.expiresAt <= now || grant.clientId !== client.client_id) {
+          throw new InvalidGrantError("Invalid or expired authorization code");
+        }
+        if (form.has("redirect_uri") && form.get("redirect_uri") !== grant.redirectUri) {
+          throw new InvalidGrantError("redirect_uri does not match the authorization request");
+        }
+
+        const verifier = form.get("code_verifier");
+        if (!verifier || !safeEqual(createHash("sha256").update(verifier).digest("base64url"), grant.codeChallenge)) {
+          throw new InvalidGrantError("PKCE verification failed");
+        }
+
+        if (form.has("resource") && resolveResource(form.get("resource")) !== grant.resource) {
+          throw new InvalidTargetError("resource does not match the authorization request");
+        }
+
+        sendJson(res, 200, await issueTokens({
+          clientId: client.client_id,
+          subject: grant.subject,
+          grantId: randomUUID(),
+          people: grant.people,
+          scopes: grant.scopes,
+          redact: grant.redact,
+          resource: grant.resource,
+        }));
+        return;
+      }
+
+      case "refresh_token": {
+        const refreshToken = form.get("refresh_token");
+        const tokenHash = refreshToken ? hashToken(refreshToken) : undefined;
+        const stored = tokenHash ? await tokenStore.getToken(tokenHash) : undefined;
+
+        if (!tokenHash || !stored || stored.kind !== "refresh" || stored.expiresAt <= now || stored.clientId !== client.client_id) {
+          throw new InvalidGrantError("Invalid or expired refresh token");
+        }
+        if (form.has("resource") && resolveResource(form.get("resource")) !== stored.resource) {
+          throw new InvalidTargetError("resource does not match the original grant");
+        }
+
+        const requestedScopes = parseScopes(form.get("scope"));
+        const scopes = requestedScopes.length > 0 ? requestedScopes : stored.scopes;
+        if (scopes.some(scope => !stored.scopes.includes(scope))) {
+          throw new InvalidGrantError("Requested scope exceeds the original grant");
+        }
+
+        // Refresh tokens rotate: once the grant succeeds, the old one stops working
+        await tokenStore.deleteToken(tokenHash);
+
+        sendJson(res, 200, await issueTokens({
+          clientId: client.client_id,
+          subject: stored.subject,
+          grantId: stored.grantId,
+          people: stored.people,
+          scopes,
+          redact: stored.redact,
+          resource: stored.resource,
+        }));
+        return;
+      }
+
+      default:
+        throw new UnsupportedGrantTypeError("grant_type must be authorization_code or refresh_token");
+    }
+  }
+
+  async function handleRegister(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new InvalidClientMetadataError("Request body must be JSON");
+    }
+
+    const parsed = OAuthClientMetadataSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new InvalidClientMetadataError(parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+    }
+
+    const metadata = parsed.data;
+    if (metadata.redirect_uris.some(uri => !isAllowedRedirectUri(uri))) {
+      throw new InvalidClientMetadataError("redirect_uris must use https, or http on localhost");
+    }
+
+    const authMethod = metadata.token_endpoint_auth_method ?? "client_secret_basic";
+    if (!authorizationServerMetadata.token_endpoint_auth_methods_supported?.includes(authMethod)) {
+      throw new InvalidClientMetadataError(`Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+
+    const client: OAuthClientInformationFull = {
+      ...metadata,
+      token_endpoint_auth_method: authMethod,
+      client_id: randomBytes(16).toString("hex"),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      ...(authMethod === "none" ? {} : { client_secret: generateToken(), client_secret_expires_at: 0 }),
+    };
+    await tokenStore.saveClient(client);
+
+    console.log(`OAuth client registered: ${client.client_name || client.client_id}`);
+    sendJson(res, 201, client);
+  }
+
+  async function handleRevoke(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const form = new URLSearchParams(await readBody(req));
+    const client = await authenticateClient(req, form);
+
+    const token = form.get("token");
+    if (!token) {
+      throw new InvalidRequestError("Missing token");
+    }
+
+    // Unknown tokens and other clients' tokens are ignored, as RFC 7009 requires
+    const tokenHash = hashToken(token);
+    const stored = await tokenStore.getToken(tokenHash);
+    if (stored && stored.clientId === client.client_id) {
+      await tokenStore.deleteToken(tokenHash);
+    }
+
+    res.writeHead(200, { "Cache-Control": "no-store" });
+    res.end();
+  }
+
+  return {
+    handleRequest: async (req, res) => {
+      const url = new URL(req.url ?? "/", issuer);
+      const pathname = url.pathname.replace(/\/+$/, "") || "/";
+
+      try {
+        // Protected resource metadata, one document per MCP endpoint
+        if (req.method === "GET" && pathname.startsWith("/.well-known/oauth-protected-resource")) {
+          const mcpPath = pathname.slice("/.well-known/oauth-protected-resource".length) || "/mcp";
+          if (!mcpPaths.includes(mcpPath)) return false;
+          sendJson(res, 200, protectedResourceMetadata(mcpPath));
+          return true;
+        }
+
+        if (req.method === "GET" && pathname === "/.well-known/oauth-authorization-server") {
+          sendJson(res, 200, authorizationServerMetadata);
+          return true;
+        }
+
+        if (pathname === "/authorize" && (req.method === "GET" || req.method === "POST")) {
+          await handleAuthorize(req, res, url);
+          return true;
+        }
+
+        if (req.method === "POST" && pathname === "/token") {
+          await handleToken(req, res);
+          return true;
+        }
+
+        if (req.method === "POST" && pathname === "/register") {
+          await handleRegister(req, res);
+          return true;
+        }
+
+        if (req.method === "POST" && pathname === "/revoke") {
+          await handleRevoke(req, res);
+          return true;
+        }
+      } catch (error) {
+        if (!(error instanceof OAuthError)) {
+          console.error("OAuth error:", error);
+        }
+        sendOAuthError(res, error instanceof OAuthError ? error : new ServerError("Internal error"));
+        return true;
+      }
+
+      return false;
+    },
+
+    verifyAccessToken: async (token, mcpPath) => {
+      const tokenHash = hashToken(token);
+      const stored = await tokenStore.getToken(tokenHash);
+      if (!stored || stored.kind !== "access") {
+        return undefined;
+      }
+      if (stored.expiresAt <= Math.floor(Date.now() / 1000)) {
+        await tokenStore.deleteToken(tokenHash);
+        return undefined;
+      }
+      if (stored.resource !== resourceUrl(mcpPath)) {
+        return undefined; // Issued for a different endpoint
+      }
+      return {
+        name: stored.subject,
+        people: stored.people,
+        clientId: stored.clientId,
+        grantId: stored.grantId,
+        scopes: stored.scopes,
+        redact: stored.redact,
+      };
+    },
+
+    resourceMetadataUrl: (mcpPath) => `${issuer}/.well-known/oauth-protected-resource${mcpPath}`,
+  };
+}
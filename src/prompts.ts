@@ -0,0 +1,358 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type GetPromptResult, type PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { createCompletions, type Completer } from "./completions.js";
+import { dataFileUri } from "./resources.js";
+import { parseDataFile, schemaFor } from "./schemas.js";
+import { goalsPath, journalEntryPath, listFilesRecursive, listGoalYears } from "./kb-paths.js";
+import type { ResumeManifest } from "./types.js";
+import type { Scope } from "./scopes.js";
+import type { Storage } from "./storage.js";
+
+// Built-in prompts for the workflows every assistant project repeats. Each prompt
+// embeds the knowledge base files it needs as resources, read through the same
+// storage as the read tools, and ends with the instructions.
+
+export interface PromptOptions {
+  // Scopes granted to the caller. Prompts need read:profile, like the read tools.
+  scopes?: readonly Scope[];
+}
+
+const dateArg = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be YYYY-MM-DD");
+const yearArg = z.string().regex(/^\d{4}$/, "must be a four-digit year");
+
+// Adapt a completer to the SDK's completion callback
+function suggest(completer: Completer) {
+  return (value: string | undefined, context?: { arguments?: Record<string, string> }) =>
+    completer(value ?? "", context?.arguments);
+}
+
+// An optional argument with suggestions. The SDK looks for the completer on the
+// argument as declared when completing, and inside .optional() when deciding to
+// offer completions at all, so both carry it.
+function optionalArg(schema: z.ZodString, description: string, completer: Completer) {
+  return completable(completable(schema.describe(description), suggest(completer)).optional(), suggest(completer));
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// The date n days before a YYYY-MM-DD date
+function daysBefore(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - days);
+  return day.toISOString().split("T")[0];
+}
+
+// A prompt built from embedded files and closing instructions
+interface PromptBuilder {
+  // Embed a file if it exists. Returns whether it was embedded.
+  embed: (relativePath: string, uri?: string) => Promise<boolean>;
+  finish: (instructions: string) => GetPromptResult;
+}
+
+// Register the knowledge base prompts on the given server
+export function registerPrompts(server: McpServer, storage: Storage, options: PromptOptions = {}): void {
+  if (options.scopes && !options.scopes.includes("read:profile")) {
+    return;
+  }
+
+  const complete = createCompletions(storage);
+
+  const startPrompt = (description: string): PromptBuilder => {
+    const messages: PromptMessage[] = [];
+    const missing: string[] = [];
+    return {
+      embed: async (relativePath, uri) => {
+        if (!(await storage.fileExists(relativePath))) {
+          missing.push(relativePath);
+          return false;
+        }
+        const content = await storage.readFile(relativePath);
+        // Data files are embedded migrated and checked, like the tools read them
+        const isData = schemaFor(relativePath) !== undefined;
+        messages.push({
+          role: "user",
+          content: {
+            type: "resource",
+            resource: {
+              uri: uri ?? dataFileUri(relativePath),
+              mimeType: isData ? "application/json" : "text/markdown",
+              text: isData ? JSON.stringify(parseDataFile(relativePath, content, { redacted: storage.redacted }), null, 2) : content,
+            },
+          },
+        });
+        return true;
+      },
+      finish: (instructions) => ({
+        description,
+        messages: [
+          ...messages,
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: missing.length > 0
+                ? `${instructions}\n\nNot in the knowledge base (work without them): ${missing.join(", ")}`
+                : instructions,
+            },
+          },
+        ],
+      }),
+    };
+  };
+
+  // Embed a day's journal entry. Optional entries that don't exist aren't
+  // reported as missing.
+  const embedJournal = async (prompt: PromptBuilder, date: string, optional = false): Promise<boolean> => {
+    const entryPath = journalEntryPath(date);
+    if (!entryPath) {
+      throw new McpError(ErrorCode.InvalidParams, `Not a real date: ${date}`);
+    }
+    if (optional && !(await storage.fileExists(entryPath))) {
+      return false;
+    }
+    return prompt.embed(entryPath, `kb://journal/${date}`);
+  };
+
+  // The year's goals file, or the latest one when that year has none
+  const goalsYear = async (year?: string): Promise<number> => {
+    if (year) return Number(year);
+    const current = new Date().getFullYear();
+    const years = await listGoalYears(storage);
+    return years.includes(current) ? current : years[years.length - 1] ?? current;
+  };
+
+  // Prompt: Weekly Review
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly Review",
+      description: "Review the week's journal entries and weekly actions against goals and active projects, and plan next week",
+      argsSchema: {
+        week_ending: dateArg.optional().describe("Last day of the week to review (YYYY-MM-DD). Defaults to today."),
+      },
+    },
+    async ({ week_ending }) => {
+      const end = week_ending ?? today();
+      // The week is counted back from end, so an impossible date must stop here
+      if (!journalEntryPath(end)) {
+        throw new McpError(ErrorCode.InvalidParams, `Not a real date: ${end}`);
+      }
+      const prompt = startPrompt(`Weekly review for the week ending ${end}`);
+
+      const journaled: string[] = [];
+      for (let days = 6; days >= 0; days--) {
+        const date = daysBefore(end, days);
+        if (await embedJournal(prompt, date, true)) {
+          journaled.push(date);
+        }
+      }
+      await prompt.embed("career/weekly-actions.json");
+      await prompt.embed(goalsPath(await goalsYear()));
+      await prompt.embed("projects/active.json");
+
+      return prompt.finish([
+        `Run my weekly review for ${daysBefore(end, 6)} to ${end}.`,
+        journaled.length > 0
+          ? `Journal entries attached: ${journaled.join(", ")}.`
+          : "There are no journal entries for this week; ask me how it went.",
+        "",
+        "1. Summarize the week: wins, struggles, mood and energy trends.",
+        "2. Compare what I did against my goals and weekly actions. Call out goals that got no attention.",
+        "3. Note progress or blockers on active projects.",
+        "4. Propose the top three priorities for next week, each tied to a goal.",
+        "5. Offer to record progress with update_goal_progress and log_weekly_action, and wait for my go-ahead before writing anything.",
+      ].join("\n"));
+    }
+  );
+
+  // Prompt: Tailor Resume for Job
+  server.registerPrompt(
+    "tailor_resume_for_job",
+    {
+      title: "Tailor Resume for Job",
+      description: "Tailor the resume to a job description using skills, experience and projects from the knowledge base",
+      argsSchema: {
+        job_description: z.string().describe("The job posting text"),
+        company: optionalArg(z.string(), "Company name", complete.applicationCompanies),
+        variant: optionalArg(z.string(), "Resume variant to start from (cluster in latest-manifest.json). Defaults to the base resume.", complete.resumeVariants),
+      },
+    },
+    async ({ job_description, company, variant }) => {
+      const prompt = startPrompt(`Tailor resume${company ? ` for ${company}` : ""}`);
+
+      let resumeFound = false;
+      if (variant) {
+        const manifestPath = "profile/resumes/latest-manifest.json";
+        const manifest = await storage.fileExists(manifestPath)
+          ? parseDataFile(manifestPath, await storage.readFile(manifestPath), { redacted: storage.redacted }) as ResumeManifest
+          : undefined;
+        const entry = manifest?.resumes.find(resume => resume.cluster === variant);
+        if (entry) {
+          resumeFound = await prompt.embed(`profile/resumes/${entry.file}`, `kb://resume/${encodeURIComponent(variant)}`);
+        }
+      }
+      if (!resumeFound) {
+        await prompt.embed("profile/resume.md", "kb://profile/resume");
+      }
+      await prompt.embed("profile/skills.json");
+      await prompt.embed("profile/experience.json");
+      await prompt.embed("projects/active.json");
+      await prompt.embed("projects/completed.json");
+
+      return prompt.finish([
+        `Tailor my resume for this job${company ? ` at ${company}` : ""}:`,
+        "",
+        job_description,
+        "",
+        "1. List the job's must-have and nice-to-have requirements and match each to evidence in my skills, experience and projects. Flag any gaps honestly.",
+        "2. Rewrite the summary and reorder or reword bullets to lead with the most relevant work. Use the posting's keywords where they are true of me.",
+        "3. Never invent experience, titles, dates or metrics that aren't in the attached data.",
+        "4. Return the tailored resume in markdown, followed by a short list of what changed and why.",
+      ].join("\n"));
+    }
+  );
+
+  // Prompt: Interview Prep
+  server.registerPrompt(
+    "interview_prep",
+    {
+      title: "Interview Prep",
+      description: "Prepare for an interview with a company using the application, past interviews, resume and experience",
+      argsSchema: {
+        company: completable(z.string().describe("Company you are interviewing with"), suggest(complete.applicationCompanies)),
+        role: z.string().optional().describe("Role you are interviewing for"),
+        interview_type: z.string().optional().describe("Kind of interview (e.g., 'phone screen', 'technical', 'behavioral', 'final')"),
+      },
+    },
+    async ({ company, role, interview_type }) => {
+      const prompt = startPrompt(`Interview prep for ${company}`);
+      await prompt.embed("profile/resume.md", "kb://profile/resume");
+      await prompt.embed("profile/experience.json");
+      await prompt.embed("profile/skills.json");
+      await prompt.embed("job-applications/applications.json");
+      await prompt.embed("job-applications/interviews.json");
+
+      return prompt.finish([
+        `Help me prepare for ${interview_type ? `a ${interview_type} interview` : "an interview"} with ${company}${role ? ` for the ${role} role` : ""}.`,
+        "",
+        `1. Find my application and any earlier interviews with ${company} in the attached tracking data and summarize where things stand.`,
+        "2. List the questions I'm most likely to get for this role and interview type.",
+        "3. For each behavioral question, draft a STAR story from my real experience and projects.",
+        "4. Point out weak spots in my background for this role and how to address them honestly.",
+        "5. Suggest thoughtful questions for me to ask them.",
+        "6. Afterwards, offer to record the interview with log_interview.",
+      ].join("\n"));
+    }
+  );
+
+  // Prompt: Daily Journal
+  server.registerPrompt(
+    "daily_journal",
+    {
+      title: "Daily Journal",
+      description: "Guide today's journal entry with yesterday's entry, goals and weekly actions as context, then save it",
+      argsSchema: {
+        date: optionalArg(dateArg, "Date of the entry (YYYY-MM-DD). Defaults to today.", complete.journalDates),
+      },
+    },
+    async ({ date }) => {
+      const day = date ?? today();
+      const prompt = startPrompt(`Journal entry for ${day}`);
+      const hasEntry = await embedJournal(prompt, day, true);
+      if (!hasEntry) {
+        await embedJournal(prompt, daysBefore(day, 1), true);
+      }
+      await prompt.embed(goalsPath(await goalsYear()));
+      await prompt.embed("career/weekly-actions.json");
+
+      return prompt.finish([
+        hasEntry
+          ? `I already have a journal entry for ${day} (attached). Help me add to it.`
+          : `Help me write my journal entry for ${day}. Yesterday's entry is attached if there was one.`,
+        "",
+        "Ask me one question at a time, conversationally:",
+        "- How did the day go, and what did I work on?",
+        "- Mood and energy level (1-10)",
+        "- Wins, and what I struggled with",
+        "- Memorable moments with my kids",
+        "- Which Napoleon Hill principle showed up today",
+        "- Progress on any of my goals",
+        "",
+        "Then draft the entry in my voice, show it to me, and once I approve, save it with add_journal_entry (date, content, mood, energy_level, tags, wins, struggles, kids_moments, napoleon_hill_principle).",
+      ].join("\n"));
+    }
+  );
+
+  // Prompt: LinkedIn Post from Journal
+  server.registerPrompt(
+    "linkedin_post_from_journal",
+    {
+      title: "LinkedIn Post from Journal",
+      description: "Turn a journal entry into a LinkedIn post draft that fits the content strategy",
+      argsSchema: {
+        date: optionalArg(dateArg, "Journal entry to use (YYYY-MM-DD). Defaults to the most recent entry.", complete.journalDates),
+        account: z.string().optional().describe("Which account the post is for (e.g., 'personal', 'codaissance', 'tampertantrum')"),
+      },
+    },
+    async ({ date, account }) => {
+      let day = date;
+      if (!day) {
+        // Most recent entry stored where the journal tools look for it
+        day = (await listFilesRecursive(storage, "journal/entries"))
+          .map(file => ({ file, date: file.split("/").pop()!.replace(/\.md$/, "") }))
+          .filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(entry.date) && journalEntryPath(entry.date) === entry.file)
+          .map(entry => entry.date)
+          .sort()
+          .pop() ?? today();
+      }
+
+      const prompt = startPrompt(`LinkedIn post from the ${day} journal entry`);
+      await embedJournal(prompt, day);
+      await prompt.embed("linkedin/content-ideas.json");
+      await prompt.embed("linkedin/profile.json");
+
+      return prompt.finish([
+        `Turn my ${day} journal entry into a LinkedIn post${account ? ` for the ${account} account` : ""}.`,
+        "",
+        "1. Pick the one moment or lesson from the entry with the most value for my audience, guided by the content strategy and pillars attached.",
+        "2. Open with a strong hook line, tell the story briefly, and end with the takeaway and a question for readers.",
+        "3. Keep it under 1,300 characters, in short paragraphs, with at most three hashtags.",
+        "4. Leave out anything private: my kids' names, family details, health, finances and anything about employers that isn't public.",
+        "5. Give me two alternative hooks as well.",
+      ].join("\n"));
+    }
+  );
+
+  // Prompt: Goal Check-In
+  server.registerPrompt(
+    "goal_check_in",
+    {
+      title: "Goal Check-In",
+      description: "Check progress on the year's goals against their metrics and weekly actions, and decide updates",
+      argsSchema: {
+        year: optionalArg(yearArg, "Goals year. Defaults to the current year, or the latest goals file.", complete.goalYears),
+        category: optionalArg(z.string(), "Only check one category (e.g., 'business', 'technical')", complete.goalCategories),
+      },
+    },
+    async ({ year, category }) => {
+      const goalYear = await goalsYear(year);
+      const prompt = startPrompt(`Goal check-in for ${goalYear}`);
+      await prompt.embed(goalsPath(goalYear));
+      await prompt.embed("career/weekly-actions.json");
+      await prompt.embed("career/chief-aim.json");
+
+      return prompt.finish([
+        `Check in on my ${goalYear} goals${category ? ` in the ${category} category` : ""}.`,
+        "",
+        "1. For each goal, compare the current metric to the target and to how much of the year is left. Rate it on track, at risk or off track.",
+        "2. Use my recent weekly actions as evidence of momentum. Ask me about goals with no recent activity.",
+        "3. Check that the goals still serve my chief aim. Suggest dropping or reshaping any that don't.",
+        "4. Propose the exact updates (status, current metric, notes) and apply them with update_goal_progress only after I confirm each one.",
+      ].join("\n"));
+    }
+  );
+}
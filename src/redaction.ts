@@ -0,0 +1,150 @@
+import type { Storage } from "./storage.js";
+
+// Privacy redaction applied to everything read tools and resources return.
+// Redaction happens in the storage layer, so every tool that reads a file gets the
+// same view without per-tool code. Write tools keep the unredacted storage so a
+// read-modify-write never saves the placeholders back; their dry-run diffs are
+// redacted on the way out instead (see previewChanges in tools.ts).
+//
+// A policy is a list of entries. Each entry is either a preset below or the name
+// of a field to hide wherever it appears (JSON keys or journal frontmatter keys).
+
+export const REDACTED = "[redacted]";
+
+// Phone numbers as people write them: grouped with separators or parentheses, or
+// led by a + country code. A bare run of digits is left alone, and so is anything
+// touching a word character, so IDs like app-1734567890123 and plain numbers survive.
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}|(?:\d{1,3}[\s.-])?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4})(?!\w)/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Files whose every value is hidden by the "financials" preset
+const FINANCIAL_FILES = /^business\/[^/]+\/financials\.json$/;
+
+interface Preset {
+  fields: string[];
+  patterns: RegExp[];
+  files?: RegExp;
+}
+
+export const REDACTION_PRESETS: Record<string, Preset> = {
+  phone: { fields: ["phone"], patterns: [PHONE_PATTERN] },
+  email: { fields: ["email"], patterns: [EMAIL_PATTERN] },
+  family: { fields: ["kids_moments", "family", "children"], patterns: [] },
+  financials: { fields: ["salary", "revenue", "expenses"], patterns: [], files: FINANCIAL_FILES },
+};
+
+// A policy resolved from its entries
+interface CompiledPolicy {
+  fields: Set<string>;
+  patterns: RegExp[];
+  files: RegExp[];
+}
+
+function compilePolicy(entries: readonly string[]): CompiledPolicy {
+  const policy: CompiledPolicy = { fields: new Set(), patterns: [], files: [] };
+  for (const entry of entries) {
+    const preset = Object.hasOwn(REDACTION_PRESETS, entry) ? REDACTION_PRESETS[entry] : undefined;
+    if (!preset) {
+      policy.fields.add(entry);
+      continue;
+    }
+    preset.fields.forEach(field => policy.fields.add(field));
+    policy.patterns.push(...preset.patterns);
+    if (preset.files) policy.files.push(preset.files);
+  }
+  return policy;
+}
+
+function redactText(text: string, policy: CompiledPolicy): string {
+  return policy.patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+// Walk a JSON value, hiding matching fields and scrubbing patterns out of strings.
+// With redactAll every leaf is hidden but the shape is kept.
+function redactValue(value: unknown, policy: CompiledPolicy, redactAll: boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, policy, redactAll));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+      key,
+      policy.fields.has(key) ? REDACTED : redactValue(child, policy, redactAll),
+    ]));
+  }
+  if (redactAll && value !== null) {
+    return REDACTED;
+  }
+  return typeof value === "string" ? redactText(value, policy) : value;
+}
+
+// Hide matching frontmatter keys (inline values and "  - item" lists), then
+// scrub patterns from the whole document
+function redactMarkdown(content: string, policy: CompiledPolicy): string {
+  const frontmatter = content.match(/^---\n([\s\S]*?)\n---\n/);
+  let result = content;
+
+  if (frontmatter) {
+    let hiding = false;
+    const lines = frontmatter[1].split("\n").map(line => {
+      if (line.startsWith("  - ")) {
+        return hiding ? `  - ${REDACTED}` : line;
+      }
+      const colonIndex = line.indexOf(":");
+      hiding = colonIndex > 0 && policy.fields.has(line.substring(0, colonIndex));
+      if (hiding && line.substring(colonIndex + 1).trim() !== "") {
+        return `${line.substring(0, colonIndex)}: ${REDACTED}`;
+      }
+      return line;
+    });
+    result = `---\n${lines.join("\n")}\n---\n${content.slice(frontmatter[0].length)}`;
+  }
+
+  return redactText(result, policy);
+}
+
+// Redact one file's content under a policy, choosing JSON, markdown or plain text
+// handling by its path
+export function createRedactor(entries: readonly string[]): (relativePath: string, content: string) => string {
+  const policy = compilePolicy(entries);
+
+  return (relativePath, content) => {
+    if (relativePath.endsWith(".json")) {
+      let data: unknown;
+      try {
+        data = JSON.parse(content);
+      } catch {
+        return redactText(content, policy);
+      }
+      const redactAll = policy.files.some(pattern => pattern.test(relativePath));
+      return JSON.stringify(redactValue(data, policy, redactAll), null, 2) + "\n";
+    }
+
+    if (relativePath.endsWith(".md")) {
+      return redactMarkdown(content, policy);
+    }
+
+    return redactText(content, policy);
+  };
+}
+
+// Wrap a backend so reads return the redacted view. Writes are refused: the
+// redacted view is only handed to read tools and resources.
+export function createRedactingStorage(storage: Storage, entries: readonly string[]): Storage {
+  const redact = createRedactor(entries);
+
+  return {
+    ...storage,
+    redacted: true,
+    readFile: async (relativePath) => redact(relativePath, await storage.readFile(relativePath)),
+    readVersioned: async (relativePath) => {
+      const { content, version } = await storage.readVersioned(relativePath);
+      return { content: redact(relativePath, content), version };
+    },
+    writeFile: async (relativePath) => {
+      throw new Error(`Redacted view is read-only; refusing to write ${relativePath}`);
+    },
+    writeFiles: async (changes) => {
+      throw new Error(`Redacted view is read-only; refusing to write ${changes.map(change => change.path).join(", ")}`);
+    },
+  };
+}
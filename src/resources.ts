@@ -0,0 +1,286 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type ReadResourceResult, type Resource } from "@modelcontextprotocol/sdk/types.js";
+import { createCompletions } from "./completions.js";
+import { parseDataFile, schemaFor } from "./schemas.js";
+import { BUSINESSES, journalEntryPath, listFilesRecursive } from "./kb-paths.js";
+import type { ResumeManifest } from "./types.js";
+import type { Scope } from "./scopes.js";
+import type { Storage } from "./storage.js";
+
+// Knowledge base files exposed as MCP resources, so clients can attach them as
+// context without calling a tool. Everything is read through the storage the read
+// tools use, so redaction applies the same way.
+
+export interface ResourceOptions {
+  // Scopes granted to the caller. Resources need read:profile, like the read tools.
+  scopes?: readonly Scope[];
+}
+
+const CLAUDE_PROJECTS_DIR = ".claude/claude-projects";
+
+// URI for a JSON data file (anything with a schema in schemas.ts)
+export function dataFileUri(relativePath: string): string {
+  return `kb://data/${relativePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+function mimeTypeFor(relativePath: string): string {
+  if (relativePath.endsWith(".md")) return "text/markdown";
+  if (relativePath.endsWith(".json")) return "application/json";
+  if (relativePath.endsWith(".xml")) return "application/xml";
+  return "text/plain";
+}
+
+function notFound(uri: URL): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+}
+
+// A single decoded path segment from a template variable. Anything that could
+// step outside the directory the template points at is refused.
+function segment(uri: URL, value: string | string[]): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+  } catch {
+    throw notFound(uri);
+  }
+  if (decoded === "" || decoded === "." || decoded === ".." || /[/\\]/.test(decoded)) {
+    throw notFound(uri);
+  }
+  return decoded;
+}
+
+// Whether reading a resource URI reads the given file, so a change to the file
+// changes the resource. Keep in step with the registrations below.
+export function resourceReadsPath(uri: string, relativePath: string): boolean {
+  const parts = uri.match(/^kb:\/\/([^/]+)\/(.+)$/);
+  if (!parts) return false;
+  let segments: string[];
+  try {
+    segments = parts[2].split("/").map(decodeURIComponent);
+  } catch {
+    return false;
+  }
+
+  if (parts[1] === "data") {
+    return segments.join("/") === relativePath;
+  }
+  switch (`${parts[1]}/${segments.length}`) {
+    case "profile/1":
+      return segments[0] === "resume" && relativePath === "profile/resume.md";
+    case "resume/1":
+      // The variant's file, or the manifest that maps it to one
+      return relativePath.startsWith("profile/resumes/");
+    case "journal/1":
+      return /^\d{4}-\d{2}-\d{2}$/.test(segments[0]) && journalEntryPath(segments[0]) === relativePath;
+    case "business/2":
+      return [".md", ".json"].some(extension => relativePath === `business/${segments[0]}/${segments[1]}${extension}`);
+    case "claude-projects/2":
+      return relativePath === `${CLAUDE_PROJECTS_DIR}/${segments[0]}/${segments[1]}`;
+    default:
+      return false;
+  }
+}
+
+// Register the knowledge base resources and resource templates on the given server
+export function registerResources(server: McpServer, storage: Storage, options: ResourceOptions = {}): void {
+  if (options.scopes && !options.scopes.includes("read:profile")) {
+    return;
+  }
+
+  const complete = createCompletions(storage);
+
+  // Read a file as resource contents. Data files come back migrated to their
+  // current schema version, the same shape the tools return; other files as stored.
+  const readContents = async (uri: URL, relativePath: string): Promise<ReadResourceResult> => {
+    if (!(await storage.fileExists(relativePath))) {
+      throw notFound(uri);
+    }
+    const content = await storage.readFile(relativePath);
+    const text = schemaFor(relativePath)
+      ? JSON.stringify(parseDataFile(relativePath, content, { redacted: storage.redacted }), null, 2)
+      : content;
+    return { contents: [{ uri: uri.href, mimeType: mimeTypeFor(relativePath), text }] };
+  };
+
+  const readManifest = async (): Promise<ResumeManifest | undefined> => {
+    const manifestPath = "profile/resumes/latest-manifest.json";
+    if (!(await storage.fileExists(manifestPath))) {
+      return undefined;
+    }
+    return parseDataFile(manifestPath, await storage.readFile(manifestPath), { redacted: storage.redacted }) as ResumeManifest;
+  };
+
+  // Resource: Base resume
+  server.registerResource(
+    "resume",
+    "kb://profile/resume",
+    {
+      title: "Resume",
+      description: "The base resume in markdown",
+      mimeType: "text/markdown",
+    },
+    (uri) => readContents(uri, "profile/resume.md")
+  );
+
+  // Resource template: Generated resume variants from the manifest
+  server.registerResource(
+    "resume-variant",
+    new ResourceTemplate("kb://resume/{variant}", {
+      list: async () => ({
+        resources: ((await readManifest())?.resumes ?? []).map(entry => ({
+          uri: `kb://resume/${encodeURIComponent(entry.cluster)}`,
+          name: entry.name ?? entry.cluster,
+          description: entry.keywords?.length ? `Keywords: ${entry.keywords.join(", ")}` : undefined,
+          mimeType: mimeTypeFor(entry.file),
+        })),
+      }),
+      complete: {
+        variant: (value) => complete.resumeVariants(value),
+      },
+    }),
+    {
+      title: "Resume Variant",
+      description: "A generated resume variant by cluster (e.g., 'full-stack-react')",
+    },
+    async (uri, { variant }) => {
+      const cluster = segment(uri, variant);
+      const entry = (await readManifest())?.resumes.find(resume => resume.cluster === cluster);
+      if (!entry) {
+        throw notFound(uri);
+      }
+      return readContents(uri, `profile/resumes/${entry.file}`);
+    }
+  );
+
+  // Resource template: Journal entries by date
+  server.registerResource(
+    "journal-entry",
+    new ResourceTemplate("kb://journal/{date}", {
+      list: async () => {
+        // Only entries stored where the journal tools look for them, newest first
+        const dates = (await listFilesRecursive(storage, "journal/entries"))
+          .map(file => ({ file, date: file.split("/").pop()!.replace(/\.md$/, "") }))
+          .filter(({ file, date }) => /^\d{4}-\d{2}-\d{2}$/.test(date) && journalEntryPath(date) === file)
+          .map(({ date }) => date)
+          .sort()
+          .reverse();
+        return {
+          resources: dates.map(date => ({ uri: `kb://journal/${date}`, name: `Journal ${date}`, mimeType: "text/markdown" })),
+        };
+      },
+      complete: {
+        date: (value) => complete.journalDates(value),
+      },
+    }),
+    {
+      title: "Journal Entry",
+      description: "The daily journal entry for a date (YYYY-MM-DD)",
+      mimeType: "text/markdown",
+    },
+    (uri, { date }) => {
+      const day = segment(uri, date);
+      const entryPath = /^\d{4}-\d{2}-\d{2}$/.test(day) ? journalEntryPath(day) : undefined;
+      if (!entryPath) {
+        throw notFound(uri);
+      }
+      return readContents(uri, entryPath);
+    }
+  );
+
+  // Resource template: Business documents (strategy, personas, roadmap, ...)
+  server.registerResource(
+    "business-document",
+    new ResourceTemplate("kb://business/{business}/{doc}", {
+      list: async () => {
+        const resources: Resource[] = [];
+        for (const business of BUSINESSES) {
+          for (const entry of await storage.listDirectory(`business/${business}`)) {
+            const doc = entry.name.match(/^(.+)\.(md|json)$/);
+            if (entry.type === "file" && doc) {
+              resources.push({
+                uri: `kb://business/${business}/${encodeURIComponent(doc[1])}`,
+                name: `${business} ${doc[1]}`,
+                mimeType: mimeTypeFor(entry.name),
+              });
+            }
+          }
+        }
+        return { resources };
+      },
+      complete: {
+        business: (value) => complete.businesses(value),
+        doc: (value, context) => complete.businessDocs(value, context?.arguments),
+      },
+    }),
+    {
+      title: "Business Document",
+      description: "A business document by name without extension (e.g., kb://business/codaissance/roadmap)",
+    },
+    async (uri, { business, doc }) => {
+      const businessName = segment(uri, business);
+      const docName = segment(uri, doc);
+      if (!BUSINESSES.includes(businessName)) {
+        throw notFound(uri);
+      }
+      // Documents are markdown or JSON; the URI leaves the extension out
+      for (const extension of [".md", ".json"]) {
+        const docPath = `business/${businessName}/${docName}${extension}`;
+        if (await storage.fileExists(docPath)) {
+          return readContents(uri, docPath);
+        }
+      }
+      throw notFound(uri);
+    }
+  );
+
+  // Resource template: JSON data files by path (goals, applications, weekly actions, ...).
+  // Prompts embed these; there are too many to list.
+  server.registerResource(
+    "data-file",
+    new ResourceTemplate("kb://data/{+path}", { list: undefined }),
+    {
+      title: "Data File",
+      description: "A JSON data file by its path in the knowledge base (e.g., kb://data/career/weekly-actions.json)",
+      mimeType: "application/json",
+    },
+    (uri, { path }) => {
+      const segments = (Array.isArray(path) ? path.join(",") : path).split("/").map(part => segment(uri, part));
+      const relativePath = segments.join("/");
+      if (!schemaFor(relativePath)) {
+        throw notFound(uri);
+      }
+      return readContents(uri, relativePath);
+    }
+  );
+
+  // Resource template: Files in Claude.ai project folders
+  server.registerResource(
+    "claude-project-file",
+    new ResourceTemplate("kb://claude-projects/{name}/{file}", {
+      list: async () => {
+        const resources: Resource[] = [];
+        for (const project of await storage.listDirectory(CLAUDE_PROJECTS_DIR)) {
+          if (project.type !== "dir") continue;
+          for (const file of await storage.listDirectory(project.path)) {
+            if (file.type !== "file") continue;
+            resources.push({
+              uri: `kb://claude-projects/${encodeURIComponent(project.name)}/${encodeURIComponent(file.name)}`,
+              name: `${project.name}/${file.name}`,
+              mimeType: mimeTypeFor(file.name),
+            });
+          }
+        }
+        return { resources };
+      },
+      complete: {
+        name: (value) => complete.claudeProjects(value),
+        file: (value, context) => complete.claudeProjectFiles(value, context?.arguments),
+      },
+    }),
+    {
+      title: "Claude Project File",
+      description: "A file in a Claude.ai project folder (e.g., kb://claude-projects/home-base/INSTRUCTIONS.xml)",
+    },
+    (uri, { name, file }) => readContents(uri, `${CLAUDE_PROJECTS_DIR}/${segment(uri, name)}/${segment(uri, file)}`)
+  );
+}
@@ -0,0 +1,471 @@
+import { z } from "zod";
+import { migrateDataFile } from "./migrations.js";
+import { REDACTED } from "./redaction.js";
+
+// Runtime schemas for the knowledge base's JSON files, written against the files as
+// they actually are (keyed objects for projects and experience, category maps for
+// skills, top_jobs for opportunities) at their current schema_version. They pin down the structure tools rely on and
+// let every other field through, so hand-added fields survive a read-modify-write.
+// Statuses and dates stay free-form strings: older entries use values the tools
+// never offered, and rejecting them would lock those files.
+
+// Thrown when a JSON file doesn't parse or doesn't match its schema, on read or
+// before a write that would produce such a file
+export class SchemaValidationError extends Error {
+  readonly path: string;
+  readonly issues: string[];
+
+  constructor(relativePath: string, issues: string[], writing = false) {
+    const summary = writing
+      ? `Refusing to write ${relativePath}: the new content fails schema validation`
+      : `${relativePath} fails schema validation`;
+    super(`${summary}:\n${issues.map(issue => `  - ${issue}`).join("\n")}`);
+    this.name = "SchemaValidationError";
+    this.path = relativePath;
+    this.issues = issues;
+  }
+}
+
+export const SKILL_LEVELS = ["none", "novice", "apprentice", "adept", "expert", "master"] as const;
+
+const percentage = z.number().min(0).max(100);
+
+// Every file may carry its version (see migrations.ts); reads stamp it on
+const schemaVersion = z.number().int().positive().optional();
+
+// ===== Profile =====
+
+// { skill_levels: [...], <category>: { <skill name>: <level> } }
+export const SkillsSchema = z.object({
+  schema_version: schemaVersion,
+  skill_levels: z.array(z.enum(SKILL_LEVELS)).optional(),
+}).catchall(z.record(z.string(), z.enum(SKILL_LEVELS)));
+
+// Older entries carry the job title as title, add_experience writes it as role
+export const PositionSchema = z.object({
+  title: z.string().optional(),
+  role: z.string().optional(),
+  start_date: z.string(),
+  end_date: z.string().optional(), // "Present" for a current role
+  location: z.string().optional(),
+  job_type: z.string().optional(),
+  responsibilities: z.array(z.string()).optional(),
+  technologies: z.array(z.string()).optional(),
+  performance_metrics: z.array(z.string()).optional(),
+}).passthrough();
+
+// { <company>: <position> }
+export const ExperienceSchema = z.object({
+  schema_version: schemaVersion,
+}).catchall(PositionSchema);
+
+export const CertificationSchema = z.object({
+  name: z.string(),
+  issuer: z.string().optional(),
+  date: z.string().optional(),
+  credential_id: z.string().optional(),
+  url: z.string().optional(),
+  expires: z.string().optional(),
+  type: z.enum(["certification", "certificate"]).optional(), // Course certificates are "certificate"
+}).passthrough();
+
+// Degrees are keyed by institution next to the certification list
+export const EducationSchema = z.object({
+  schema_version: schemaVersion,
+  certifications: z.array(CertificationSchema).optional(),
+  self_taught_learning: z.unknown().optional(),
+}).catchall(z.object({}).passthrough());
+
+export const ContactSchema = z.object({
+  schema_version: schemaVersion,
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  location: z.string(),
+  links: z.record(z.string(), z.string()),
+}).passthrough();
+
+export const AboutMeSchema = z.object({
+  schema_version: schemaVersion,
+  personality_type: z.string().optional(),
+  hobbies: z.array(z.string()).optional(),
+  interests: z.array(z.string()).optional(),
+  life_situation: z.array(z.string()).optional(),
+}).passthrough();
+
+export const PreferencesSchema = z.object({ schema_version: schemaVersion }).passthrough();
+
+export const GoalSchema = z.object({
+  id: z.string(),
+  goal: z.string(),
+  status: z.string(),
+  target_date: z.string(),
+  metrics: z.object({
+    target: z.string(),
+    current: z.string(),
+  }).passthrough(),
+  notes: z.string().optional(),
+  quarterly_objectives: z.array(z.string()).optional(),
+}).passthrough();
+
+export const GoalsSchema = z.object({
+  schema_version: schemaVersion,
+  year: z.number().int(),
+  last_updated: z.string(),
+  categories: z.record(z.string(), z.object({
+    title: z.string(),
+    goals: z.array(GoalSchema),
+  }).passthrough()),
+}).passthrough();
+
+export const ResumeManifestSchema = z.object({
+  schema_version: schemaVersion,
+  generated_at: z.string().optional(),
+  date: z.string().optional(),
+  source: z.string().optional(),
+  resumes: z.array(z.object({
+    cluster: z.string(),
+    name: z.string().optional(),
+    file: z.string(),
+    keywords: z.array(z.string()).optional(),
+  }).passthrough()),
+}).passthrough();
+
+// ===== Projects =====
+
+export const ProjectSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  technologies: z.array(z.string()).optional(),
+  status: z.string().optional(),
+  completion_percentage: percentage.optional(),
+  priority: z.string().optional(),
+  repo_url: z.string().optional(),
+  problem: z.string().optional(),
+  solution: z.string().optional(),
+  target_audience: z.union([z.string(), z.array(z.string())]).optional(),
+}).passthrough();
+
+// { <project id>: <project> }, one file per status
+export const ProjectsSchema = z.object({
+  schema_version: schemaVersion,
+}).catchall(ProjectSchema);
+
+// ===== Job search =====
+
+export const ApplicationSchema = z.object({
+  id: z.string(), // Empty in the template entry
+  company: z.string(),
+  role: z.string().optional(),
+  date_applied: z.string().optional(),
+  status: z.string(),
+  last_updated: z.string().optional(),
+}).passthrough();
+
+export const ApplicationsSchema = z.object({
+  schema_version: schemaVersion,
+  applications: z.array(ApplicationSchema),
+}).passthrough();
+
+export const InterviewSchema = z.object({
+  id: z.string(),
+  company: z.string(),
+  application_id: z.string().optional(),
+  role: z.string().optional(),
+  round: z.number().optional(),
+  type: z.string().optional(),
+  date: z.string().optional(),
+  outcome: z.string().optional(),
+}).passthrough();
+
+export const InterviewsSchema = z.object({
+  schema_version: schemaVersion,
+  interviews: z.array(InterviewSchema),
+}).passthrough();
+
+export const JobOpportunitySchema = z.object({
+  title: z.string().optional(),
+  company: z.string(),
+  location: z.string().optional(),
+  url: z.string().optional(),
+  cluster: z.string().optional(),
+  resume: z.string().optional(),
+  status: z.string().optional(),
+}).passthrough();
+
+export const JobOpportunitiesSchema = z.object({
+  schema_version: schemaVersion,
+  generated_at: z.string().optional(),
+  top_jobs: z.array(JobOpportunitySchema),
+}).passthrough();
+
+// ===== Career =====
+
+export const CareerRoadmapSchema = z.object({
+  schema_version: schemaVersion,
+  career_roadmap: z.object({
+    milestones: z.array(z.object({
+      id: z.string(),
+      title: z.string(),
+      status: z.string().optional(),
+      completion: percentage.optional(),
+    }).passthrough()),
+    last_updated: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const ChiefAimSchema = z.object({
+  schema_version: schemaVersion,
+  napoleon_hill_principles: z.object({
+    master_mind_alliance: z.object({
+      current_members: z.array(z.string()),
+      needed_members: z.array(z.string()),
+    }).passthrough().optional(),
+  }).passthrough(),
+  career_vision_questions: z.unknown().optional(),
+}).passthrough();
+
+export const WeeklyActionsSchema = z.object({
+  schema_version: schemaVersion,
+  weeks: z.array(z.object({
+    week_start: z.string(),
+    actions: z.array(z.object({
+      date: z.string(),
+      action: z.string(),
+      category: z.string(),
+      principle: z.string().optional(),
+      impact: z.string().optional(),
+    }).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+// ===== Business =====
+
+export const BusinessStrategySchema = z.object({
+  schema_version: schemaVersion,
+  business_type: z.string().optional(),
+  founded: z.string().optional(),
+  status: z.string().optional(),
+  website: z.string().optional(),
+  problem_statement: z.string().optional(),
+  solution_statement: z.string().optional(),
+  mission_statement: z.string().optional(),
+  key_insights: z.array(z.string()).optional(),
+}).passthrough();
+
+// Personas, marketing, brand and design system are edited by field path, so only
+// their being objects is checked
+export const BusinessDocumentSchema = z.object({ schema_version: schemaVersion }).passthrough();
+
+export const FinancialsSchema = z.object({
+  schema_version: schemaVersion,
+  revenue: z.object({
+    mrr: z.number().optional(),
+    arr: z.number().optional(),
+  }).passthrough(),
+  expenses: z.record(z.string(), z.array(z.object({
+    name: z.string(),
+    amount: z.number(),
+    date: z.string().optional(),
+  }).passthrough())),
+  metrics: z.object({
+    customers: z.number().optional(),
+  }).passthrough(),
+}).passthrough();
+
+// ===== Learning =====
+
+export const LEARNING_QUEUES = ["current_focus", "queue", "backlog", "on_hold"] as const;
+
+export const LearningItemSchema = z.object({
+  skill: z.string(),
+  category: z.string().optional(),
+  // Older items rank by number, the tools write low/medium/high
+  priority: z.union([z.number(), z.string()]).optional(),
+  why: z.string().optional(),
+  resources: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+}).passthrough();
+
+export const LearningRoadmapSchema = z.object(
+  Object.fromEntries(LEARNING_QUEUES.map(queue => [queue, z.array(LearningItemSchema).optional()])) as
+    Record<typeof LEARNING_QUEUES[number], z.ZodOptional<z.ZodArray<typeof LearningItemSchema>>>,
+).extend({ schema_version: schemaVersion }).passthrough();
+
+// Entries are either hand-written course records or items moved from the roadmap
+export const CompletedLearningSchema = z.object({
+  schema_version: schemaVersion,
+  entries: z.array(z.object({
+    name: z.string().optional(),
+    skill: z.string().optional(),
+    completed_date: z.string().optional(),
+    date_completed: z.string().optional(),
+  }).passthrough()),
+}).passthrough();
+
+// ===== Ideas =====
+
+export const IdeaSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  problem: z.string().optional(),
+  solution: z.string().optional(),
+  target_audience: z.string().optional(),
+  effort: z.string().optional(),
+  potential_value: z.string().optional(),
+  status: z.string(),
+  date_added: z.string().optional(),
+  date_updated: z.string().optional(),
+}).passthrough();
+
+export const IdeasSchema = z.object({
+  schema_version: schemaVersion,
+  ideas: z.array(IdeaSchema),
+}).passthrough();
+
+// ===== LinkedIn =====
+
+const LinkedInAccountSchema = z.object({
+  followers: z.number().optional(),
+  connections: z.number().optional(),
+  last_updated: z.string().optional(),
+}).passthrough();
+
+export const LinkedInProfileSchema = z.object({
+  schema_version: schemaVersion,
+  personal: LinkedInAccountSchema.optional(),
+  codaissance: LinkedInAccountSchema.optional(),
+  tampertantrum_labs: LinkedInAccountSchema.optional(),
+}).passthrough();
+
+export const LinkedInMetricsSchema = z.object({
+  schema_version: schemaVersion,
+  connections: z.number().optional(),
+  followers: z.number().optional(),
+  profile_views: z.number().optional(),
+  post_impressions: z.number().optional(),
+  search_appearances: z.number().optional(),
+  last_updated: z.string().optional(),
+}).passthrough();
+
+export const ContentIdeasSchema = z.object({
+  schema_version: schemaVersion,
+  accounts: z.record(z.string(), z.object({}).passthrough()).optional(),
+  content_bank: z.record(z.string(), z.array(z.object({
+    title: z.string().optional(),
+    topic: z.string().optional(),
+    status: z.string().optional(),
+    impressions: z.number().optional(),
+    engagement: z.number().optional(),
+  }).passthrough())).optional(),
+}).passthrough();
+
+// ===== Registry =====
+
+// Which schema each data file follows, by path relative to the knowledge base root.
+// Files that match no pattern are not checked.
+export const DATA_FILE_SCHEMAS: Array<{ pattern: RegExp; schema: z.ZodTypeAny }> = [
+  { pattern: /^profile\/skills\.json$/, schema: SkillsSchema },
+  { pattern: /^profile\/experience\.json$/, schema: ExperienceSchema },
+  { pattern: /^profile\/education\.json$/, schema: EducationSchema },
+  { pattern: /^profile\/contact\.json$/, schema: ContactSchema },
+  { pattern: /^profile\/about-me\.json$/, schema: AboutMeSchema },
+  { pattern: /^profile\/preferences\.json$/, schema: PreferencesSchema },
+  { pattern: /^profile\/goals\/\d{4}-goals\.json$/, schema: GoalsSchema },
+  { pattern: /^profile\/resumes\/latest-manifest\.json$/, schema: ResumeManifestSchema },
+  { pattern: /^projects\/(active|planned|completed)\.json$/, schema: ProjectsSchema },
+  { pattern: /^job-applications\/applications\.json$/, schema: ApplicationsSchema },
+  { pattern: /^job-applications\/interviews\.json$/, schema: InterviewsSchema },
+  { pattern: /^job-applications\/opportunities\/latest\.json$/, schema: JobOpportunitiesSchema },
+  { pattern: /^career\/roadmap\.json$/, schema: CareerRoadmapSchema },
+  { pattern: /^career\/chief-aim\.json$/, schema: ChiefAimSchema },
+  { pattern: /^career\/weekly-actions\.json$/, schema: WeeklyActionsSchema },
+  { pattern: /^business\/[^/]+\/strategy\.json$/, schema: BusinessStrategySchema },
+  { pattern: /^business\/[^/]+\/(personas|marketing|brand|design-system)\.json$/, schema: BusinessDocumentSchema },
+  { pattern: /^business\/[^/]+\/financials\.json$/, schema: FinancialsSchema },
+  { pattern: /^learning\/roadmap\.json$/, schema: LearningRoadmapSchema },
+  { pattern: /^learning\/completed\.json$/, schema: CompletedLearningSchema },
+  { pattern: /^ideas\/(personal|business\/[^/]+)\/ideas\.json$/, schema: IdeasSchema },
+  { pattern: /^linkedin\/profile\.json$/, schema: LinkedInProfileSchema },
+  { pattern: /^linkedin\/[^/]+-metrics\.json$/, schema: LinkedInMetricsSchema },
+  { pattern: /^linkedin\/content-ideas\.json$/, schema: ContentIdeasSchema },
+];
+
+export function schemaFor(relativePath: string): z.ZodTypeAny | undefined {
+  return DATA_FILE_SCHEMAS.find(entry => entry.pattern.test(relativePath))?.schema;
+}
+
+// Issue location as a property path, e.g. ideas[2].status
+function issuePath(path: Array<string | number>): string {
+  if (path.length === 0) return "(root)";
+  return path.map((part, index) =>
+    typeof part === "number" ? `[${part}]` : index === 0 ? part : `.${part}`
+  ).join("");
+}
+
+// The value at an issue's path, or undefined if the path doesn't exist
+function valueAt(data: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>((value, part) =>
+    value !== null && typeof value === "object" ? (value as Record<string | number, unknown>)[part] : undefined, data);
+}
+
+// Paths of every value that is the redaction placeholder
+function redactedPaths(data: unknown, path: Array<string | number> = []): Array<Array<string | number>> {
+  if (data === REDACTED) return [path];
+  if (data === null || typeof data !== "object") return [];
+  return Object.entries(data).flatMap(([key, value]) =>
+    redactedPaths(value, [...path, Array.isArray(data) ? Number(key) : key]));
+}
+
+export interface CheckOptions {
+  // The data was read through a redacting storage. Values hidden by redaction
+  // can't be checked, so issues at them are left out.
+  redacted?: boolean;
+  // The data is about to be written. Redaction placeholders are refused so they
+  // never replace the real values.
+  writing?: boolean;
+}
+
+// Problems with already-parsed data, one line each; empty if it matches its schema
+// (or has none)
+export function schemaIssues(relativePath: string, data: unknown, options: CheckOptions = {}): string[] {
+  const schema = schemaFor(relativePath);
+  if (!schema) return [];
+  const result = schema.safeParse(data);
+  const issues = result.success
+    ? []
+    : result.error.issues
+      .filter(issue => !options.redacted || valueAt(data, issue.path) !== REDACTED)
+      .map(issue => `${issuePath(issue.path)}: ${issue.message}`);
+  if (options.writing) {
+    issues.push(...redactedPaths(data).map(path => `${issuePath(path)}: is the redaction placeholder "${REDACTED}", not a real value`));
+  }
+  return issues;
+}
+
+// Parse a data file, upgrade it to the current schema_version, and check it against
+// its schema. Throws SchemaValidationError listing every problem; writing changes
+// the message to a refusal.
+export function parseDataFile(relativePath: string, content: string, options: CheckOptions = {}): unknown {
+  const { writing = false } = options;
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new SchemaValidationError(relativePath, [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`], writing);
+  }
+
+  // Older files are checked, and handed to tools, in their upgraded shape
+  const { data: migrated, from, to } = migrateDataFile(relativePath, data);
+  if (from > to) {
+    throw new SchemaValidationError(relativePath, [`schema_version: ${from} is newer than this server supports (${to})`], writing);
+  }
+
+  const issues = schemaIssues(relativePath, migrated, options);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(relativePath, issues, writing);
+  }
+  // The data itself, not zod's parsed copy, so key order is kept on write-back
+  return migrated;
+}
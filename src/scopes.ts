@@ -0,0 +1,111 @@
+// Permission scopes carried by credentials. A tool is only registered for callers
+// holding its scope, so out-of-scope tools are missing from tools/list and
+// tools/call rejects them as unknown.
+export const SCOPES = [
+  "read:profile", // Every read tool
+  "write:profile", // Skills, education, preferences, LinkedIn profile and metrics
+  "write:career", // Experience, applications, interviews, goals, roadmaps, learning
+  "write:projects", // Projects, ideas, business strategy, content ideas
+  "write:journal", // Daily journal entries
+  "write:finance", // Business financials
+  "admin:files", // Free-form file writes and deletes (READMEs, specs, Claude projects)
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+// Scopes that never change the knowledge base; the only ones left in read-only mode
+export const READ_SCOPES: readonly Scope[] = ["read:profile"];
+
+export function isScope(value: string): value is Scope {
+  return (SCOPES as readonly string[]).includes(value);
+}
+
+// Scope required by each tool. Registering a tool that isn't listed here fails at
+// startup, so new tools can't slip through unscoped.
+export const TOOL_SCOPES: Record<string, Scope> = {
+  // Read tools
+  get_skills: "read:profile",
+  get_experience: "read:profile",
+  get_projects: "read:profile",
+  get_goals: "read:profile",
+  list_goal_years: "read:profile",
+  get_profile: "read:profile",
+  get_resume: "read:profile",
+  query_knowledge_base: "read:profile",
+  get_job_opportunities: "read:profile",
+  get_business_info: "read:profile",
+  get_learning_roadmap: "read:profile",
+  get_ideas: "read:profile",
+  get_education: "read:profile",
+  get_preferences: "read:profile",
+  get_linkedin_metrics: "read:profile",
+  get_assessments: "read:profile",
+  get_business_roadmap: "read:profile",
+  get_job_applications: "read:profile",
+  get_interviews: "read:profile",
+  get_career_roadmap: "read:profile",
+  get_chief_aim: "read:profile",
+  get_financials: "read:profile",
+  get_linkedin_profile: "read:profile",
+  get_content_ideas: "read:profile",
+  get_todays_journal: "read:profile",
+  list_recent_journal_entries: "read:profile",
+  search_journal: "read:profile",
+  extract_story_ideas: "read:profile",
+  get_claude_projects: "read:profile",
+  get_claude_project: "read:profile",
+  validate_knowledge_base: "read:profile",
+  complete_tool_argument: "read:profile",
+
+  // Profile writes
+  update_skill: "write:profile",
+  add_certification: "write:profile",
+  update_linkedin_metrics: "write:profile",
+  update_linkedin_profile: "write:profile",
+
+  // Career writes
+  add_experience: "write:career",
+  update_experience: "write:career",
+  log_job_application: "write:career",
+  update_application_status: "write:career",
+  log_interview: "write:career",
+  update_job_opportunity: "write:career",
+  update_milestone: "write:career",
+  update_goal_progress: "write:career",
+  update_goal: "write:career",
+  start_new_goal_year: "write:career",
+  add_mastermind_member: "write:career",
+  log_weekly_action: "write:career",
+  update_chief_aim: "write:career",
+  update_learning_progress: "write:career",
+  update_learning_item: "write:career",
+
+  // Project and business writes
+  add_project: "write:projects",
+  update_project_status: "write:projects",
+  update_project: "write:projects",
+  add_idea: "write:projects",
+  update_idea: "write:projects",
+  update_business_strategy: "write:projects",
+  update_content_idea: "write:projects",
+
+  // Journal writes
+  add_journal_entry: "write:journal",
+
+  // Financial writes
+  update_financials: "write:finance",
+
+  // File-level writes and deletes
+  update_readme: "admin:files",
+  update_project_spec: "admin:files",
+  scaffold_project: "admin:files",
+  create_claude_project: "admin:files",
+  update_claude_project_file: "admin:files",
+  delete_item: "admin:files",
+  migrate_knowledge_base: "admin:files",
+
+  // Change history shows unredacted arguments, and undo can touch any file
+  get_change_history: "admin:files",
+  undo_last_change: "admin:files",
+  revert_change: "admin:files",
+};
@@ -0,0 +1,41 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTools, type ToolOptions } from "./tools.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { createPublishingStorage, registerSubscriptions, type ChangeFeed } from "./subscriptions.js";
+import { createRedactingStorage } from "./redaction.js";
+import type { Storage } from "./storage.js";
+
+export interface ServerOptions extends Omit<ToolOptions, "only"> {
+  // The knowledge base's change feed. With one, clients can subscribe to
+  // resources, and writes through this server are published to it.
+  changeFeed?: ChangeFeed;
+}
+
+// Create an MCP server with the full knowledge base tool set, resources and prompts
+export function createServer(storage: Storage, options: ServerOptions = {}): McpServer {
+  const { changeFeed, ...toolOptions } = options;
+  const { redact } = toolOptions;
+  const server = new McpServer({
+    name: "myself-knowledge-base",
+    version: "1.0.0",
+    description: "Knowledge base about myself including skills, experience, projects, goals, profile information, business info, resumes, job opportunities, automations, and more.",
+  });
+
+  if (changeFeed) {
+    storage = createPublishingStorage(storage, changeFeed);
+  }
+
+  // Read tools see the redacted view; write tools need the real data so their
+  // read-modify-write cycles don't save redaction placeholders
+  const readStorage = redact && redact.length > 0 ? createRedactingStorage(storage, redact) : storage;
+  registerTools(server, readStorage, { ...toolOptions, only: "read" });
+  registerTools(server, storage, { ...toolOptions, only: "write" });
+  registerResources(server, readStorage, { scopes: toolOptions.scopes });
+  registerPrompts(server, readStorage, { scopes: toolOptions.scopes });
+  if (changeFeed && (!toolOptions.scopes || toolOptions.scopes.includes("read:profile"))) {
+    registerSubscriptions(server, changeFeed);
+  }
+
+  return server;
+}
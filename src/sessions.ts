@@ -0,0 +1,286 @@
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs";
+import type { IncomingMessage, ServerResponse } from "http";
+import * as path from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Credential } from "./auth.js";
+
+// MCP sessions for the Streamable HTTP endpoints. An initialize POST starts a
+// session; its ID comes back in the Mcp-Session-Id header and every later
+// request sends it. The session store keeps who owns each session and when it
+// was last used, so sessions can be checked, expired and ended wherever the
+// store is shared. Live transports can't be stored: the process that started a
+// session keeps its transport, which carries the GET event stream and
+// server-initiated messages (notifications, progress, elicitation). A request
+// for a stored session this process has no transport for, such as on another
+// serverless instance or after a restart, is still answered, without a stream.
+
+export interface SessionRecord {
+  id: string;
+  person?: string; // Knowledge base the session is bound to; undefined for the default one
+  credential?: string; // Name of the credential that started it; undefined when auth is off
+  fingerprint?: string; // Hash of that credential's grants (see credentialFingerprint); undefined when auth is off
+  createdAt: number; // Unix seconds
+  lastActiveAt: number; // Unix seconds
+}
+
+export interface SessionStore {
+  get: (id: string) => Promise<SessionRecord | undefined>;
+  save: (session: SessionRecord) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  // Remove sessions last active before the given time; returns their IDs
+  deleteIdle: (before: number) => Promise<string[]>;
+}
+
+function createSessionStoreFromData(data: Record<string, SessionRecord>, persist: (data: Record<string, SessionRecord>) => void): SessionStore {
+  return {
+    get: async (id) => Object.hasOwn(data, id) ? data[id] : undefined,
+    save: async (session) => {
+      data[session.id] = session;
+      persist(data);
+    },
+    delete: async (id) => {
+      if (Object.hasOwn(data, id)) {
+        delete data[id];
+        persist(data);
+      }
+    },
+    deleteIdle: async (before) => {
+      const idle = Object.values(data).filter(session => session.lastActiveAt < before).map(session => session.id);
+      if (idle.length > 0) {
+        idle.forEach(id => delete data[id]);
+        persist(data);
+      }
+      return idle;
+    },
+  };
+}
+
+// Sessions last as long as the process
+export function createMemorySessionStore(): SessionStore {
+  return createSessionStoreFromData({}, () => {});
+}
+
+// Keeps sessions in a JSON file so they survive a restart of the HTTP server
+export function createFileSessionStore(filePath: string): SessionStore {
+  let data: Record<string, SessionRecord> = {};
+  if (fs.existsSync(filePath)) {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<string, SessionRecord>;
+  }
+
+  return createSessionStoreFromData(data, (current) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(current, null, 2) + "\n", { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+  });
+}
+
+export interface SessionManagerOptions {
+  store: SessionStore;
+  // Sessions unused for this long are ended
+  idleTimeoutSeconds: number;
+  // Keep each session's server and transport in this process between requests.
+  // Off for serverless functions, which can't hold a connection open.
+  keepTransports: boolean;
+}
+
+// Who is making a request, and how to build a server for them
+export interface SessionRequestContext {
+  person?: string;
+  credential?: Credential;
+  createServer: () => McpServer;
+}
+
+export interface SessionManager {
+  // Handle a POST, GET or DELETE on the MCP endpoint
+  handleRequest: (req: IncomingMessage, res: ServerResponse, context: SessionRequestContext) => Promise<void>;
+  // End every session this process holds and stop the idle sweep
+  close: () => Promise<void>;
+}
+
+interface LiveSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Everything about a credential that shapes the server built for it. A session's
+// server keeps the scopes and redaction it started with, so a request must
+// present the same grants to use it, not just a credential with the same name.
+function credentialFingerprint(credential: Credential | undefined): string | undefined {
+  if (!credential) return undefined;
+  const sorted = (values?: string[]) => values ? [...values].sort() : null;
+  return createHash("sha256")
+    .update(JSON.stringify([
+      credential.name,
+      credential.clientId ?? null,
+      credential.grantId ?? null,
+      sorted(credential.people),
+      sorted(credential.scopes),
+      sorted(credential.redact),
+    ]))
+    .digest("base64url");
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+export function createSessionManager(options: SessionManagerOptions): SessionManager {
+  const { store, idleTimeoutSeconds, keepTransports } = options;
+  const live = new Map<string, LiveSession>();
+  // Open GET streams per session in this process. A client that only listens for
+  // notifications sends no requests, so an open stream counts as activity.
+  const openStreams = new Map<string, number>();
+
+  const endLive = async (id: string) => {
+    const session = live.get(id);
+    live.delete(id);
+    await session?.server.close();
+  };
+
+  const sweep = async () => {
+    try {
+      for (const id of openStreams.keys()) {
+        const session = await store.get(id);
+        if (session) {
+          await store.save({ ...session, lastActiveAt: now() });
+        }
+      }
+      for (const id of await store.deleteIdle(now() - idleTimeoutSeconds)) {
+        await endLive(id);
+      }
+    } catch (error) {
+      console.error("Session sweep failed:", error instanceof Error ? error.message : error);
+    }
+  };
+
+  // Long-lived servers sweep on a timer; serverless instances sweep when a session starts
+  const sweepTimer = keepTransports
+    ? setInterval(() => void sweep(), Math.min(idleTimeoutSeconds, 60) * 1000)
+    : undefined;
+  sweepTimer?.unref?.();
+
+  // Start a session with an initialize POST. The transport rejects anything else.
+  const startSession = async (req: IncomingMessage, res: ServerResponse, context: SessionRequestContext) => {
+    if (!keepTransports) {
+      await sweep();
+    }
+
+    const server = context.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: async (id) => {
+        const time = now();
+        await store.save({
+          id,
+          person: context.person,
+          credential: context.credential?.name,
+          fingerprint: credentialFingerprint(context.credential),
+          createdAt: time,
+          lastActiveAt: time,
+        });
+        if (keepTransports) {
+          live.set(id, { server, transport });
+        }
+      },
+      onsessionclosed: async (id) => {
+        await store.delete(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && live.get(transport.sessionId)?.transport === transport) {
+        live.delete(transport.sessionId);
+      }
+    };
+
+    res.on("close", () => {
+      // No session was started, or this process doesn't keep transports
+      if (!transport.sessionId || !keepTransports) {
+        void server.close();
+      }
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  };
+
+  // Answer a request in a stored session without its live transport
+  const handleDetached = async (req: IncomingMessage, res: ServerResponse, id: string, context: SessionRequestContext) => {
+    if (req.method === "DELETE") {
+      await store.delete(id);
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method === "GET") {
+      res.writeHead(405, { "Content-Type": "application/json", "Allow": "POST, DELETE" });
+      res.end(JSON.stringify({ error: "No event stream is available for this session here" }));
+      return;
+    }
+
+    // The session was initialized when it started, so the server answers statelessly
+    const server = context.createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => void server.close());
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  };
+
+  return {
+    handleRequest: async (req, res, context) => {
+      const id = req.headers["mcp-session-id"];
+      if (typeof id !== "string") {
+        if (req.method !== "POST") {
+          sendJsonRpcError(res, 400, -32000, "Bad Request: Mcp-Session-Id header is required");
+          return;
+        }
+        await startSession(req, res, context);
+        return;
+      }
+
+      // A session only answers to the endpoint and credential that started it,
+      // with the same grants
+      const session = await store.get(id);
+      if (!session || session.person !== context.person || session.fingerprint !== credentialFingerprint(context.credential)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (session.lastActiveAt < now() - idleTimeoutSeconds) {
+        await store.delete(id);
+        await endLive(id);
+        sendJsonRpcError(res, 404, -32001, "Session expired");
+        return;
+      }
+      if (session.lastActiveAt !== now()) {
+        await store.save({ ...session, lastActiveAt: now() });
+      }
+
+      const liveSession = live.get(id);
+      if (liveSession) {
+        if (req.method === "GET") {
+          openStreams.set(id, (openStreams.get(id) ?? 0) + 1);
+          res.on("close", () => {
+            const open = (openStreams.get(id) ?? 1) - 1;
+            if (open > 0) openStreams.set(id, open);
+            else openStreams.delete(id);
+          });
+        }
+        await liveSession.transport.handleRequest(req, res);
+      } else {
+        await handleDetached(req, res, id, context);
+      }
+    },
+    close: async () => {
+      clearInterval(sweepTimer);
+      for (const id of [...live.keys()]) {
+        await endLive(id);
+      }
+    },
+  };
+}
@@ -0,0 +1,413 @@
+import { createHash, randomBytes } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createGitHubStorage } from "./github.js";
+import type { KnowledgeBaseConfig } from "./config.js";
+
+export interface DirectoryEntry {
+  name: string;
+  type: "file" | "dir";
+  path: string;
+}
+
+// Read cache counters for backends that cache (GitHub)
+export interface CacheStats {
+  hits: number; // Served from cache without a request
+  revalidated: number; // Conditional request answered 304 Not Modified
+  misses: number; // Full fetch
+  entries: number;
+}
+
+// File content with an opaque version token: the blob SHA on GitHub, a content
+// hash elsewhere. Passing the version back to writeFile makes the write fail if
+// the file changed in between.
+export interface VersionedContent {
+  content: string;
+  version: string;
+}
+
+export interface WriteOptions {
+  // Only write if the file is still at this version; null means it must not exist yet.
+  // Omitted writes unconditionally.
+  expectedVersion?: string | null;
+}
+
+// One file in a multi-file write. Null content deletes the file.
+export interface FileChange extends WriteOptions {
+  path: string;
+  content: string | null;
+}
+
+// What a write produced. Backends that keep history report the commit.
+export interface WriteResult {
+  commit?: string;
+}
+
+// Upstream changes since a known head, for backends that others can write to
+export interface UpstreamChanges {
+  head: string; // The current head, to pass as since next time
+  commits: string[]; // Commits after since, oldest first
+  paths: string[]; // Files those commits changed
+}
+
+// Thrown by writeFile when expectedVersion no longer matches the stored file
+export class ConflictError extends Error {
+  readonly path: string;
+
+  constructor(relativePath: string) {
+    super(`${relativePath} was changed by someone else since it was read`);
+    this.name = "ConflictError";
+    this.path = relativePath;
+  }
+}
+
+// Thrown by local writes when another process holds a file's lock for too long
+export class LockTimeoutError extends Error {
+  readonly path: string;
+
+  constructor(relativePath: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for the lock on ${relativePath}; another process is writing it`);
+    this.name = "LockTimeoutError";
+    this.path = relativePath;
+  }
+}
+
+// Thrown by backends that commit after writing (git auto-commit) when the files
+// were written but the commit failed. The change is in place, so it still counts
+// as made.
+export class UncommittedWriteError extends Error {
+  readonly paths: string[];
+
+  constructor(paths: string[], reason: string) {
+    super(`Wrote ${paths.join(", ")} but it was not committed: ${reason}`);
+    this.name = "UncommittedWriteError";
+    this.paths = paths;
+  }
+}
+
+// Raw file access for the knowledge base. Paths are relative to the repo root.
+// Backends that keep history (GitHub) use the message as the commit message;
+// the others ignore it.
+export interface Storage {
+  readFile: (relativePath: string) => Promise<string>;
+  readVersioned: (relativePath: string) => Promise<VersionedContent>;
+  writeFile: (relativePath: string, content: string, message: string, options?: WriteOptions) => Promise<WriteResult>;
+  // Write several files as one all-or-nothing change (a single commit on GitHub).
+  // Every expected version is checked before anything is written.
+  writeFiles: (changes: FileChange[], message: string) => Promise<WriteResult>;
+  listDirectory: (relativePath: string) => Promise<DirectoryEntry[]>;
+  // True for files and for directories (a directory exists if anything is in it)
+  fileExists: (relativePath: string) => Promise<boolean>;
+  cacheStats?: () => CacheStats;
+  // Reads come back with redaction placeholders (see createRedactingStorage)
+  redacted?: boolean;
+  // Report what changed upstream since a head it returned earlier. With no head,
+  // only the current head is reported. Backends only this server writes to leave it out.
+  changesSince?: (since?: string) => Promise<UpstreamChanges>;
+}
+
+export type StorageBackend = "local" | "github" | "memory";
+
+// Strip leading/trailing slashes and collapse "a//b" so every backend sees the same key
+function normalizePath(relativePath: string): string {
+  return relativePath.split("/").filter(part => part !== "" && part !== ".").join("/");
+}
+
+// Version token for backends without native versions
+function contentVersion(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// ===== Local filesystem =====
+
+export interface LocalStorageOptions {
+  lockTimeoutMs?: number; // How long a write waits for another writer's lock
+}
+
+// A lock file older than this was left behind by a crashed process
+const STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+// Sibling files used while writing; hidden from directory listings
+const LOCK_SUFFIX = ".lock";
+const TEMP_SUFFIX = ".tmp";
+
+// Writes are crash-safe and safe across processes (e.g. two Claude Desktop
+// windows): each file is written to a temp file and renamed into place, under an
+// advisory lock file (<file>.lock) that covers the version check and the write.
+export function createLocalStorage(root: string, options: LocalStorageOptions = {}): Storage {
+  const rootDir = path.resolve(root);
+  const { lockTimeoutMs = 10_000 } = options;
+
+  // Resolve a repo-relative path, refusing anything that escapes the root
+  function resolvePath(relativePath: string): string {
+    const fullPath = path.resolve(rootDir, relativePath);
+    if (fullPath !== rootDir && !fullPath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Path escapes knowledge base root: ${relativePath}`);
+    }
+    return fullPath;
+  }
+
+  // Current version of a file, or null if it doesn't exist
+  async function currentVersion(fullPath: string): Promise<string | null> {
+    try {
+      return contentVersion(await fs.readFile(fullPath, "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  // Throw ConflictError unless the file is still at the expected version
+  async function checkVersion(relativePath: string, expectedVersion: string | null | undefined): Promise<void> {
+    if (expectedVersion !== undefined && await currentVersion(resolvePath(relativePath)) !== expectedVersion) {
+      throw new ConflictError(relativePath);
+    }
+  }
+
+  // Write to a temp file, flush it, then rename over the target, so a crash leaves
+  // either the old or the new content and never a truncated file
+  async function writeAtomic(fullPath: string, content: string): Promise<void> {
+    const tempPath = `${fullPath}.${process.pid}.${randomBytes(4).toString("hex")}${TEMP_SUFFIX}`;
+    try {
+      const handle = await fs.open(tempPath, "w");
+      try {
+        await handle.writeFile(content, "utf-8");
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, fullPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  // Create the lock file exclusively, waiting while another writer holds it.
+  // Returns the release function.
+  async function acquireLock(relativePath: string): Promise<() => Promise<void>> {
+    const lockPath = resolvePath(relativePath) + LOCK_SUFFIX;
+    const deadline = Date.now() + lockTimeoutMs;
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, `${process.pid}\n`, { flag: "wx" });
+        return () => fs.rm(lockPath, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const lockStat = await fs.stat(lockPath).catch(() => undefined);
+      if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(relativePath, lockTimeoutMs);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  // Hold the locks of every path while running fn. Locks are taken in sorted
+  // order so two multi-file writes can't deadlock each other.
+  async function withLocks<T>(relativePaths: string[], fn: () => Promise<T>): Promise<T> {
+    const releases: Array<() => Promise<void>> = [];
+    try {
+      for (const relativePath of [...new Set(relativePaths.map(normalizePath))].sort()) {
+        releases.push(await acquireLock(relativePath));
+      }
+      return await fn();
+    } finally {
+      for (const release of releases.reverse()) {
+        await release();
+      }
+    }
+  }
+
+  // Creates parent directories if needed; null content removes the file
+  async function write(relativePath: string, content: string | null): Promise<void> {
+    const fullPath = resolvePath(relativePath);
+    if (content === null) {
+      await fs.rm(fullPath, { force: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await writeAtomic(fullPath, content);
+  }
+
+  return {
+    readFile: async (relativePath) => fs.readFile(resolvePath(relativePath), "utf-8"),
+
+    readVersioned: async (relativePath) => {
+      const content = await fs.readFile(resolvePath(relativePath), "utf-8");
+      return { content, version: contentVersion(content) };
+    },
+
+    writeFile: (relativePath, content, _message, options = {}) =>
+      withLocks([relativePath], async () => {
+        await checkVersion(relativePath, options.expectedVersion);
+        await write(relativePath, content);
+        return {};
+      }),
+
+    // If any write fails, files already written are restored to their previous
+    // content (or removed if they didn't exist)
+    writeFiles: (changes) =>
+      withLocks(changes.map(change => change.path), async () => {
+        for (const change of changes) {
+          await checkVersion(change.path, change.expectedVersion);
+        }
+
+        const originals = new Map<string, string | null>();
+        try {
+          for (const change of changes) {
+            const fullPath = resolvePath(change.path);
+            if (!originals.has(fullPath)) {
+              originals.set(fullPath, await fs.readFile(fullPath, "utf-8").catch(() => null));
+            }
+            await write(change.path, change.content);
+          }
+        } catch (error) {
+          for (const [fullPath, original] of originals) {
+            await (original === null ? fs.rm(fullPath, { force: true }) : writeAtomic(fullPath, original));
+          }
+          throw error;
+        }
+        return {};
+      }),
+
+    listDirectory: async (relativePath) => {
+      try {
+        const entries = await fs.readdir(resolvePath(relativePath), { withFileTypes: true });
+        return entries
+          .filter(entry => !entry.name.endsWith(LOCK_SUFFIX) && !entry.name.endsWith(TEMP_SUFFIX))
+          .map(entry => ({
+            name: entry.name,
+            type: entry.isDirectory() ? "dir" : "file",
+            path: path.posix.join(normalizePath(relativePath), entry.name),
+          }));
+      } catch {
+        return []; // Directory doesn't exist
+      }
+    },
+
+    fileExists: async (relativePath) => {
+      try {
+        await fs.access(resolvePath(relativePath));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+// ===== In-memory =====
+
+// Keeps files in a map keyed by repo-relative path. Directories are implied by
+// the paths of the files they contain.
+export function createMemoryStorage(initialFiles: Record<string, string> = {}): Storage {
+  const files = new Map<string, string>();
+  for (const [filePath, content] of Object.entries(initialFiles)) {
+    files.set(normalizePath(filePath), content);
+  }
+
+  const readFile = async (relativePath: string): Promise<string> => {
+    const content = files.get(normalizePath(relativePath));
+    if (content === undefined) {
+      throw new Error(`File not found: ${relativePath}`);
+    }
+    return content;
+  };
+
+  const checkVersion = (relativePath: string, expectedVersion: string | null | undefined): void => {
+    const existing = files.get(normalizePath(relativePath));
+    if (expectedVersion !== undefined && (existing === undefined ? null : contentVersion(existing)) !== expectedVersion) {
+      throw new ConflictError(relativePath);
+    }
+  };
+
+  return {
+    readFile,
+
+    readVersioned: async (relativePath) => {
+      const content = await readFile(relativePath);
+      return { content, version: contentVersion(content) };
+    },
+
+    writeFile: async (relativePath, content, _message, options = {}) => {
+      checkVersion(relativePath, options.expectedVersion);
+      files.set(normalizePath(relativePath), content);
+      return {};
+    },
+
+    writeFiles: async (changes) => {
+      changes.forEach(change => checkVersion(change.path, change.expectedVersion));
+      for (const change of changes) {
+        if (change.content === null) {
+          files.delete(normalizePath(change.path));
+        } else {
+          files.set(normalizePath(change.path), change.content);
+        }
+      }
+      return {};
+    },
+
+    listDirectory: async (relativePath) => {
+      const dir = normalizePath(relativePath);
+      const prefix = dir ? dir + "/" : "";
+      const entries = new Map<string, DirectoryEntry>();
+
+      for (const filePath of files.keys()) {
+        if (!filePath.startsWith(prefix)) continue;
+        const [name, ...rest] = filePath.slice(prefix.length).split("/");
+        if (!entries.has(name)) {
+          entries.set(name, { name, type: rest.length > 0 ? "dir" : "file", path: prefix + name });
+        }
+      }
+
+      return [...entries.values()];
+    },
+
+    fileExists: async (relativePath) => {
+      const key = normalizePath(relativePath);
+      if (files.has(key)) return true;
+      // A directory exists if any file lives under it
+      return [...files.keys()].some(filePath => filePath.startsWith(key + "/"));
+    },
+  };
+}
+
+// ===== Read-only =====
+
+// Wraps a backend so every write fails. Used by read-only mode as a backstop in
+// case a write slips past tool registration.
+export function createReadOnlyStorage(storage: Storage): Storage {
+  return {
+    ...storage,
+    writeFile: async (relativePath) => {
+      throw new Error(`Knowledge base is read-only; refusing to write ${relativePath}`);
+    },
+    writeFiles: async (changes) => {
+      throw new Error(`Knowledge base is read-only; refusing to write ${changes.map(change => change.path).join(", ")}`);
+    },
+  };
+}
+
+// ===== Backend selection =====
+
+// Create the storage backend selected by the configuration
+export function createStorage(config: KnowledgeBaseConfig): Storage {
+  switch (config.storageBackend) {
+    case "local":
+      return createLocalStorage(config.localRoot, { lockTimeoutMs: config.lockTimeoutSeconds * 1000 });
+    case "github":
+      return createGitHubStorage(config.github);
+    case "memory":
+      return createMemoryStorage();
+  }
+}
@@ -0,0 +1,165 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { resourceReadsPath } from "./resources.js";
+import type { FileChange, Storage, WriteOptions } from "./storage.js";
+
+// Resource subscriptions. Each knowledge base has one change feed that every
+// server for it listens to. Writes made through a server publish the paths they
+// changed, and a background poll of the upstream (the GitHub branch head)
+// publishes changes made anywhere else. Servers turn changed paths into
+// notifications/resources/updated for the URIs their client subscribed to.
+
+export type ChangeListener = (paths: string[]) => void;
+
+export interface ChangeFeed {
+  // Listen for changed paths; returns a function that stops listening
+  subscribe: (listener: ChangeListener) => () => void;
+  // Report paths changed by a write. The commit, if any, tells the poll the
+  // change is already published.
+  publish: (paths: string[], commit?: string) => void;
+}
+
+export interface ChangeFeedOptions {
+  // How often to check the upstream for changes while anyone is listening.
+  // 0 or undefined never polls.
+  pollIntervalMs?: number;
+}
+
+// Create the change feed for one knowledge base. Polling only runs while there
+// are listeners, and only for storages that can report upstream changes.
+export function createChangeFeed(storage: Storage, options: ChangeFeedOptions = {}): ChangeFeed {
+  const { pollIntervalMs = 0 } = options;
+  const listeners = new Set<ChangeListener>();
+  // Commits published by our own writes, so the poll doesn't report them twice
+  const ownCommits = new Set<string>();
+  let head: string | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let polling = false;
+
+  const notify = (paths: string[]) => {
+    if (paths.length === 0) return;
+    for (const listener of listeners) {
+      try {
+        listener(paths);
+      } catch (error) {
+        console.error("Change listener failed:", error);
+      }
+    }
+  };
+
+  const poll = async () => {
+    if (polling || !storage.changesSince) return;
+    polling = true;
+    try {
+      const changes = await storage.changesSince(head);
+      const upstream = changes.commits.filter(commit => !ownCommits.has(commit));
+      changes.commits.forEach(commit => ownCommits.delete(commit));
+      if (head !== undefined && upstream.length > 0) {
+        notify(changes.paths);
+      }
+      head = changes.head;
+    } catch (error) {
+      console.error("Upstream change poll failed:", error instanceof Error ? error.message : error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const startPolling = () => {
+    if (timer || !storage.changesSince || pollIntervalMs <= 0) return;
+    head = undefined;
+    void poll(); // Records the head to compare against
+    timer = setInterval(() => void poll(), pollIntervalMs);
+    timer.unref?.(); // Never keeps the process alive on its own
+  };
+
+  const stopPolling = () => {
+    clearInterval(timer);
+    timer = undefined;
+    ownCommits.clear();
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      startPolling();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          stopPolling();
+        }
+      };
+    },
+    publish: (paths, commit) => {
+      if (commit && timer) {
+        ownCommits.add(commit);
+      }
+      notify(paths);
+    },
+  };
+}
+
+// Wrap a storage so every successful write is published to the feed
+export function createPublishingStorage(storage: Storage, feed: ChangeFeed): Storage {
+  return {
+    ...storage,
+    writeFile: async (relativePath: string, content: string, message: string, options?: WriteOptions) => {
+      const result = await storage.writeFile(relativePath, content, message, options);
+      feed.publish([relativePath], result.commit);
+      return result;
+    },
+    writeFiles: async (changes: FileChange[], message: string) => {
+      const result = await storage.writeFiles(changes, message);
+      feed.publish(changes.map(change => change.path), result.commit);
+      return result;
+    },
+  };
+}
+
+// Handle resources/subscribe and resources/unsubscribe on a server, and send
+// notifications/resources/updated for subscribed resources whose files change.
+// The server listens to the feed only while its client has subscriptions.
+export function registerSubscriptions(server: McpServer, feed: ChangeFeed): void {
+  const subscribed = new Set<string>();
+  let stopListening: (() => void) | undefined;
+
+  const onChange: ChangeListener = (paths) => {
+    for (const uri of subscribed) {
+      if (paths.some(changed => resourceReadsPath(uri, changed))) {
+        server.server.sendResourceUpdated({ uri }).catch(() => {
+          // The client went away; the transport's close handler cleans up
+        });
+      }
+    }
+  };
+
+  const updateListening = () => {
+    if (subscribed.size > 0 && !stopListening) {
+      stopListening = feed.subscribe(onChange);
+    } else if (subscribed.size === 0 && stopListening) {
+      stopListening();
+      stopListening = undefined;
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribed.add(request.params.uri);
+    updateListening();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    updateListening();
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    subscribed.clear();
+    updateListening();
+  };
+}
@@ -0,0 +1,100 @@
+import type { Config, KnowledgeBaseConfig } from "./config.js";
+import { createChangeLog, type ChangeLog } from "./history.js";
+import { createReadOnlyStorage, createStorage, type CacheStats, type Storage } from "./storage.js";
+import { createChangeFeed, type ChangeFeed } from "./subscriptions.js";
+
+// Knowledge bases served by one deployment: the default one at /mcp and one per
+// configured person at /mcp/<person>. Each person gets their own storage instance,
+// created on first use and bound to their own repo or root, so nothing a tool does
+// for one person can reach another person's files.
+export interface TenantRegistry {
+  // Storage for a person, or the default knowledge base when person is undefined.
+  // Returns undefined for people that aren't configured.
+  getStorage: (person?: string) => Storage | undefined;
+  // Change history for a person's knowledge base; kept across requests
+  getChangeLog: (person?: string) => ChangeLog | undefined;
+  // Change feed for a person's knowledge base, shared by every session so a write
+  // in one reaches subscribers in the others
+  getChangeFeed: (person?: string) => ChangeFeed | undefined;
+  people: string[];
+  // Read cache counters summed over every knowledge base used so far, or
+  // undefined when no backend caches
+  cacheStats: () => CacheStats | undefined;
+}
+
+export function createTenantRegistry(config: Config): TenantRegistry {
+  const storages = new Map<string | undefined, Storage>();
+  const changeLogs = new Map<string | undefined, ChangeLog>();
+  const changeFeeds = new Map<string | undefined, ChangeFeed>();
+
+  function knowledgeBaseFor(person?: string): KnowledgeBaseConfig | undefined {
+    if (person === undefined) return config;
+    return Object.hasOwn(config.people, person) ? config.people[person] : undefined;
+  }
+
+  const registry: TenantRegistry = {
+    getStorage: (person) => {
+      let storage = storages.get(person);
+      if (!storage) {
+        const kb = knowledgeBaseFor(person);
+        if (!kb) return undefined;
+        storage = config.readOnly ? createReadOnlyStorage(createStorage(kb)) : createStorage(kb);
+        storages.set(person, storage);
+      }
+      return storage;
+    },
+    getChangeLog: (person) => {
+      let changeLog = changeLogs.get(person);
+      if (!changeLog) {
+        if (!knowledgeBaseFor(person)) return undefined;
+        changeLog = createChangeLog(config.historyDir, person ?? "_default");
+        changeLogs.set(person, changeLog);
+      }
+      return changeLog;
+    },
+    getChangeFeed: (person) => {
+      let changeFeed = changeFeeds.get(person);
+      if (!changeFeed) {
+        const kb = knowledgeBaseFor(person);
+        const storage = kb && registry.getStorage(person);
+        if (!kb || !storage) return undefined;
+        changeFeed = createChangeFeed(storage, {
+          pollIntervalMs: kb.storageBackend === "github" ? kb.github.pollSeconds * 1000 : 0,
+        });
+        changeFeeds.set(person, changeFeed);
+      }
+      return changeFeed;
+    },
+    people: Object.keys(config.people),
+    cacheStats: () => {
+      let total: CacheStats | undefined;
+      for (const storage of storages.values()) {
+        const stats = storage.cacheStats?.();
+        if (!stats) continue;
+        total = total ?? { hits: 0, revalidated: 0, misses: 0, entries: 0 };
+        total.hits += stats.hits;
+        total.revalidated += stats.revalidated;
+        total.misses += stats.misses;
+        total.entries += stats.entries;
+      }
+      return total;
+    },
+  };
+  return registry;
+}
+
+// Split "/mcp" or "/mcp/<person>" (query string ignored) into its person segment.
+// Returns null for any other path.
+export function parseMcpPath(url: string, prefix = "/mcp"): { person?: string } | null {
+  const pathname = url.split("?")[0].replace(/\/+$/, "");
+  if (pathname === prefix) return {};
+  if (!pathname.startsWith(prefix + "/")) return null;
+
+  let person: string;
+  try {
+    person = decodeURIComponent(pathname.slice(prefix.length + 1));
+  } catch {
+    return null; // Malformed escape sequence
+  }
+  return person.includes("/") ? null : { person };
+}
@@ -0,0 +1,4604 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ShapeOutput } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type {
+  ApplicationsData,
+  Certification,
+  EducationData,
+  InterviewsData,
+  SkillsData,
+  ExperienceData,
+  ProjectsData,
+  GoalsData,
+  GoalResult,
+  ContactData,
+  AboutMeData,
+  ProfileResult,
+  ResumeManifest,
+  BusinessStrategy,
+  PersonasData,
+  MarketingData,
+  LearningRoadmapData,
+  CompletedLearningData,
+  IdeasData,
+  Idea,
+} from "./types.js";
+import { ConflictError, UncommittedWriteError, type Storage, type WriteResult } from "./storage.js";
+import { TOOL_ARGUMENT_COMPLETIONS, createCompletions } from "./completions.js";
+import { unifiedDiff } from "./diff.js";
+import { MAX_CHANGES, createMemoryChangeLog, newChangeId, type ChangedFile, type ChangeEntry, type ChangeLog } from "./history.js";
+import { SchemaValidationError, parseDataFile, schemaFor, schemaIssues, type CheckOptions } from "./schemas.js";
+import { currentSchemaVersion, migrateDataFile } from "./migrations.js";
+import { createRedactor } from "./redaction.js";
+import { READ_SCOPES, TOOL_SCOPES, type Scope } from "./scopes.js";
+import { BUSINESSES, getMonthName, goalsPath, journalEntryPath, listFilesRecursive, listGoalYears } from "./kb-paths.js";
+
+// Helper to get day of week
+function getDayOfWeek(date: Date): string {
+  const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  return days[date.getDay()];
+}
+
+// Entries of a keyed data file ({ "<id>": {...} }), without its schema_version
+function dataEntries(data: object): Array<[string, unknown]> {
+  return Object.entries(data).filter(([key]) => key !== "schema_version");
+}
+
+// A data file's content without its schema_version stamp
+function withoutSchemaVersion(data: unknown): unknown {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return data;
+  }
+  const { schema_version: _, ...rest } = data as Record<string, unknown>;
+  return rest;
+}
+
+// Helper to parse YAML frontmatter from markdown
+function parseJournalEntry(content: string): { metadata: Record<string, unknown>; body: string } {
+  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!frontmatterMatch) {
+    return { metadata: {}, body: content };
+  }
+
+  const yamlContent = frontmatterMatch[1];
+  const body = frontmatterMatch[2];
+
+  // Simple YAML parser for our known structure
+  const metadata: Record<string, unknown> = {};
+  const lines = yamlContent.split("\n");
+  let currentKey: string | null = null;
+  let currentArray: string[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith("  - ")) {
+      // Array item
+      currentArray.push(line.substring(4));
+    } else if (line.includes(": ")) {
+      // Save previous array if exists
+      if (currentKey && currentArray.length > 0) {
+        metadata[currentKey] = currentArray;
+        currentArray = [];
+      }
+
+      const colonIndex = line.indexOf(": ");
+      const key = line.substring(0, colonIndex);
+      const value = line.substring(colonIndex + 2);
+      currentKey = key;
+
+      if (value.startsWith("[") && value.endsWith("]")) {
+        // Inline array
+        metadata[key] = value.slice(1, -1).split(", ").map(s => s.trim());
+      } else if (value === "") {
+        // Array will follow
+        currentArray = [];
+      } else {
+        // Simple value
+        const numValue = Number(value);
+        metadata[key] = isNaN(numValue) ? value : numValue;
+      }
+    }
+  }
+
+  // Save last array if exists
+  if (currentKey && currentArray.length > 0) {
+    metadata[currentKey] = currentArray;
+  }
+
+  return { metadata, body };
+}
+
+// ===== Knowledge base validation =====
+
+interface ValidationProblem {
+  severity: "error" | "warning";
+  kind: "missing_file" | "invalid_json" | "schema_violation" | "outdated_schema_version" | "dangling_reference" | "misplaced_journal_file";
+  path: string;
+  message: string;
+}
+
+// Files the tools assume exist. Required ones are read by tools that fail without
+// them; a missing optional one only leaves a tool with nothing to show.
+const EXPECTED_FILES: Array<{ path: string; required: boolean }> = [
+  ...["skills.json", "experience.json", "education.json", "contact.json", "about-me.json", "preferences.json", "resume.md"]
+    .map(file => ({ path: `profile/${file}`, required: true })),
+  ...[
+    "profile/resumes/latest-manifest.json",
+    "projects/active.json",
+    "projects/planned.json",
+    "projects/completed.json",
+    "job-applications/applications.json",
+    "job-applications/interviews.json",
+    "job-applications/opportunities/latest.json",
+    "career/roadmap.json",
+    "career/chief-aim.json",
+    "learning/roadmap.json",
+    "learning/completed.json",
+    "ideas/personal/ideas.json",
+    ...BUSINESSES.map(business => `ideas/business/${business}/ideas.json`),
+    ...BUSINESSES.flatMap(business => ["strategy.json", "personas.json", "marketing.json", "financials.json", "roadmap.md"]
+      .map(file => `business/${business}/${file}`)),
+    "linkedin/profile.json",
+    "linkedin/content-ideas.json",
+    ...["personal", "codaissance", "tampertantrum"].map(account => `linkedin/${account}-metrics.json`),
+  ].map(path => ({ path, required: false })),
+];
+
+// Top-level directories the tools read from; nothing outside them is scanned
+const DATA_DIRECTORIES = ["profile", "projects", "job-applications", "career", "business", "linkedin", "learning", "ideas", "journal"];
+
+// Every data file under the directories the tools read from
+async function listDataFiles(storage: Storage): Promise<string[]> {
+  return (await Promise.all(DATA_DIRECTORIES.map(dir => listFilesRecursive(storage, dir)))).flat();
+}
+
+// Scan the knowledge base for missing files, files that don't parse or don't match
+// their schema, references to things that don't exist, and journal entries filed
+// under the wrong folder
+async function lintKnowledgeBase(storage: Storage): Promise<{ filesChecked: number; problems: ValidationProblem[] }> {
+  const problems: ValidationProblem[] = [];
+  const files = await listDataFiles(storage);
+  const present = new Set(files);
+
+  // get_goals defaults to the current year, so that year's file is required too
+  for (const expected of [...EXPECTED_FILES, { path: goalsPath(new Date().getFullYear()), required: true }]) {
+    if (!present.has(expected.path)) {
+      problems.push({
+        severity: expected.required ? "error" : "warning",
+        kind: "missing_file",
+        path: expected.path,
+        message: expected.required ? "Required file is missing" : "Optional file is missing",
+      });
+    }
+  }
+
+  // Parsed JSON files, kept for the reference checks
+  const data = new Map<string, unknown>();
+  for (const file of files.filter(file => file.endsWith(".json"))) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await storage.readFile(file));
+    } catch (error) {
+      problems.push({ severity: "error", kind: "invalid_json", path: file, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    // Checked in its upgraded shape, the way tools read it
+    const { data: migrated, from, to } = migrateDataFile(file, parsed);
+    if (from > to) {
+      problems.push({ severity: "error", kind: "schema_violation", path: file, message: `schema_version ${from} is newer than this server supports (${to})` });
+      continue;
+    }
+    if (from < to) {
+      problems.push({ severity: "warning", kind: "outdated_schema_version", path: file, message: `At schema_version ${from}, current is ${to}; run migrate_knowledge_base` });
+    }
+    const issues = schemaIssues(file, migrated, { redacted: storage.redacted });
+    issues.forEach(issue => problems.push({ severity: "error", kind: "schema_violation", path: file, message: issue }));
+    if (issues.length === 0) {
+      data.set(file, migrated);
+    }
+  }
+
+  // Interviews pointing at an application that doesn't exist
+  const applications = data.get("job-applications/applications.json") as ApplicationsData | undefined;
+  const interviews = data.get("job-applications/interviews.json") as InterviewsData | undefined;
+  if (interviews) {
+    const applicationIds = new Set(applications?.applications.map(application => application.id));
+    interviews.interviews.forEach((interview, index) => {
+      if (interview.application_id && !applicationIds.has(interview.application_id)) {
+        problems.push({
+          severity: "error",
+          kind: "dangling_reference",
+          path: "job-applications/interviews.json",
+          message: `interviews[${index}] (${interview.id || interview.company}) has application_id "${interview.application_id}", which matches no application`,
+        });
+      }
+    });
+  }
+
+  // Resume variants whose file is gone
+  const manifest = data.get("profile/resumes/latest-manifest.json") as ResumeManifest | undefined;
+  manifest?.resumes.forEach((resume, index) => {
+    if (!present.has(`profile/resumes/${resume.file}`)) {
+      problems.push({
+        severity: "error",
+        kind: "dangling_reference",
+        path: "profile/resumes/latest-manifest.json",
+        message: `resumes[${index}] (${resume.cluster}) points to profile/resumes/${resume.file}, which doesn't exist`,
+      });
+    }
+  });
+
+  // Journal tools only look for journal/entries/YYYY/MM-month/YYYY-MM-DD.md, so an
+  // entry anywhere else is invisible to them
+  for (const file of files.filter(file => file.startsWith("journal/"))) {
+    const name = file.slice(file.lastIndexOf("/") + 1);
+    const dateMatch = name.match(/^(\d{4}-\d{2}-\d{2})\.md$/);
+    const expected = dateMatch ? journalEntryPath(dateMatch[1]) : undefined;
+    if (expected === file) continue;
+    if (expected) {
+      problems.push({ severity: "error", kind: "misplaced_journal_file", path: file, message: `Entry belongs at ${expected}` });
+    } else if (file.startsWith("journal/entries/")) {
+      problems.push({ severity: "warning", kind: "misplaced_journal_file", path: file, message: "Not a journal entry: expected a YYYY-MM-DD.md file with a real date" });
+    }
+  }
+
+  return { filesChecked: files.length, problems };
+}
+
+// ===== Optimistic concurrency and change history =====
+
+// How many times a write tool runs before giving up on a conflicting file
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Per-call state for a write tool. Every file the call reads (or finds missing) is
+// recorded with its version, and writing it back is conditional on that version,
+// so a concurrent edit is detected instead of silently overwritten. The content
+// read is kept too, so the change can be recorded in the history. Null marks a
+// file that doesn't exist; a file this call already wrote has no version.
+interface WriteCallContext {
+  reads: Map<string, { version?: string; content: string } | null>;
+  written: ChangedFile[];
+  messages: string[];
+  commits: string[];
+  revertOf?: string;
+  conflict?: ConflictError;
+  // Dry run: writes are collected instead of made, and later reads in the same
+  // call see the pending content
+  dryRun?: boolean;
+}
+
+const writeCallContext = new AsyncLocalStorage<WriteCallContext>();
+
+// Result returned when a conflict can't be resolved by re-running the tool
+function conflictResult(conflict: ConflictError, context: WriteCallContext, attempts: number): CallToolResult {
+  return {
+    isError: true,
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        error: "conflict",
+        path: conflict.path,
+        message: `${conflict.message}. Read it again and retry.`,
+        attempts,
+        // Files this call had already written before the conflict
+        written: context.written.map(file => file.path),
+      }, null, 2),
+    }],
+  };
+}
+
+// A file written more than once in one call counts once, from its first before to
+// its last after
+function collapseWrites(written: ChangedFile[]): ChangedFile[] {
+  const files = new Map<string, ChangedFile>();
+  for (const file of written) {
+    const earlier = files.get(file.path);
+    files.set(file.path, earlier ? { ...earlier, after: file.after } : file);
+  }
+  return [...files.values()];
+}
+
+// Run a write tool handler without writing anything and return a unified diff of
+// every file it would change. Write tools read unredacted data, so with a redactor
+// both sides of each diff go through it first.
+async function previewChanges(
+  handler: () => Promise<CallToolResult>,
+  redact?: (relativePath: string, content: string) => string,
+): Promise<CallToolResult> {
+  const context: WriteCallContext = { reads: new Map(), written: [], messages: [], commits: [], dryRun: true };
+  const result = await writeCallContext.run(context, handler);
+
+  if (context.written.length === 0) {
+    const output = result.content.map(item => item.type === "text" ? item.text : "").join("\n");
+    return { ...result, content: [{ type: "text", text: `Dry run: no files would change.\n\n${output}` }] };
+  }
+
+  const diffs = collapseWrites(context.written).map(file => {
+    if (!redact) {
+      return unifiedDiff(file.path, file.before, file.after) || `No changes to ${file.path}`;
+    }
+    const before = file.before === null ? null : redact(file.path, file.before);
+    const after = file.after === null ? null : redact(file.path, file.after);
+    if (before === after && file.before !== file.after) {
+      return `${file.path} would change, but the change is in redacted content`;
+    }
+    return unifiedDiff(file.path, before, after) || `No changes to ${file.path}`;
+  });
+  return {
+    content: [{
+      type: "text",
+      text: [`Dry run: nothing was written. Commit message: ${context.messages.join("; ")}`, ...diffs].join("\n\n"),
+    }],
+  };
+}
+
+// Run a write tool handler, retrying from a fresh read when a write conflicts.
+// A retry re-reads every file and re-applies the change, so it is only safe while
+// nothing has been written yet; a conflict after a partial write is reported.
+// Whatever the final attempt wrote is handed to onWritten for the history.
+async function runWithConflictRetry(
+  handler: () => Promise<CallToolResult>,
+  onWritten: (context: WriteCallContext) => Promise<void>,
+): Promise<CallToolResult> {
+  for (let attempt = 1; ; attempt++) {
+    const context: WriteCallContext = { reads: new Map(), written: [], messages: [], commits: [] };
+    const result = await writeCallContext.run(context, handler);
+    if (context.written.length > 0) {
+      await onWritten(context);
+    }
+    if (!context.conflict) {
+      return result;
+    }
+    if (context.written.length > 0 || attempt >= MAX_WRITE_ATTEMPTS) {
+      return conflictResult(context.conflict, context, attempt);
+    }
+  }
+}
+
+// ===== Schema validation =====
+
+// Schema violations hit during one tool call. Many tools treat any failed read as a
+// missing file, so violations are collected here and reported by the wrapper
+// instead of depending on each handler to pass them on.
+const schemaViolations = new AsyncLocalStorage<SchemaValidationError[]>();
+
+// Run a tool handler and, if it read or tried to write a file that doesn't match
+// its schema, return the violations as an error in place of its own result
+async function reportSchemaViolations(handler: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  const violations: SchemaValidationError[] = [];
+  const result = await schemaViolations.run(violations, handler);
+  if (violations.length === 0) {
+    return result;
+  }
+  // A retried call can hit the same violation more than once
+  const messages = [...new Set(violations.map(violation => violation.message))];
+  return { isError: true, content: [{ type: "text", text: messages.join("\n\n") }] };
+}
+
+// Parse and check a data file, recording a violation for the current tool call
+function checkDataFile(relativePath: string, content: string, options: CheckOptions = {}): unknown {
+  try {
+    return parseDataFile(relativePath, content, options);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      schemaViolations.getStore()?.push(error);
+    }
+    throw error;
+  }
+}
+
+// The parts of the SDK's tool config the tools use
+interface ToolConfig<InputArgs extends z.ZodRawShape> {
+  title?: string;
+  description?: string;
+  inputSchema?: InputArgs;
+  annotations?: ToolAnnotations;
+}
+
+// The SDK's ToolCallback for a raw shape. Its own type is conditional on the
+// schema, which TypeScript can't resolve for a generic shape.
+type ToolHandler<InputArgs extends z.ZodRawShape> = (
+  args: ShapeOutput<InputArgs>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) => CallToolResult | Promise<CallToolResult>;
+
+// Note: We don't use outputSchema because it requires structuredContent responses.
+// Our tools return plain text content which doesn't need schema validation.
+
+export interface ToolOptions {
+  // Scopes granted to the caller. Tools needing any other scope aren't registered.
+  // Undefined grants every scope (stdio, or HTTP without credentials).
+  scopes?: readonly Scope[];
+  // Leave out every tool that can change the knowledge base
+  readOnly?: boolean;
+  // Register only read tools or only write tools, so each kind can get its own
+  // storage view (see createServer)
+  only?: "read" | "write";
+  // Redaction policy entries (presets or field names) applied to what the caller
+  // sees. Empty or undefined returns data as stored. Read tools are handed a
+  // redacted storage (see createServer); write tools redact their dry-run diffs.
+  redact?: readonly string[];
+  // Where write tool calls are recorded for get_change_history and undo.
+  // Defaults to a log that lives as long as the server.
+  changeLog?: ChangeLog;
+}
+
+// Register every knowledge base tool on the given server.
+// All transports mount this so they expose the same tool set.
+export function registerTools(server: McpServer, storage: Storage, options: ToolOptions = {}): void {
+  const { listDirectory } = storage;
+  const { scopes, readOnly, only, redact, changeLog = createMemoryChangeLog() } = options;
+  const redactPreview = redact && redact.length > 0 ? createRedactor(redact) : undefined;
+
+  // Register a tool only if the caller holds its scope and, in read-only mode,
+  // only if it is a read tool
+  function registerTool<InputArgs extends z.ZodRawShape>(
+    name: string,
+    config: ToolConfig<InputArgs>,
+    handler: ToolHandler<InputArgs>,
+  ): RegisteredTool | undefined;
+  function registerTool(name: string, config: ToolConfig<z.ZodRawShape>, handler: ToolHandler<z.ZodRawShape>): RegisteredTool | undefined {
+    const scope = TOOL_SCOPES[name];
+    if (!scope) {
+      throw new Error(`Tool ${name} has no scope in TOOL_SCOPES`);
+    }
+    const isRead = READ_SCOPES.includes(scope);
+    if ((scopes && !scopes.includes(scope)) || (readOnly && !isRead)) {
+      return undefined;
+    }
+    if ((only === "read" && !isRead) || (only === "write" && isRead)) {
+      return undefined;
+    }
+    // Tools that need a write scope but don't write (get_change_history) are marked readOnlyHint
+    if (!isRead && !config.annotations?.readOnlyHint) {
+      // Every write tool takes dry_run and returns a diff instead of writing
+      const inputSchema = {
+        ...config.inputSchema,
+        dry_run: z.boolean().optional().describe("Preview the change as a unified diff without writing anything"),
+      };
+      return server.registerTool(name, { ...config, inputSchema }, (args, extra) => reportSchemaViolations(() => args.dry_run
+        ? previewChanges(async () => handler(args, extra), redactPreview)
+        : runWithConflictRetry(async () => handler(args, extra), context => recordChange(name, args, context))));
+    }
+    if (!config.inputSchema) {
+      // Without an input schema the SDK calls back with only extra
+      return server.registerTool(name, { ...config, inputSchema: undefined }, (extra) =>
+        reportSchemaViolations(async () => handler({}, extra)));
+    }
+    return server.registerTool(name, config, (args, extra) => reportSchemaViolations(async () => handler(args, extra)));
+  }
+
+  // Add a write tool call's changes to the history. A file written twice in one
+  // call appears once, from its first before to its last after.
+  const recordChange = async (tool: string, args: Record<string, unknown>, context: WriteCallContext): Promise<void> => {
+    await changeLog.record({
+      id: newChangeId(),
+      time: new Date().toISOString(),
+      tool,
+      arguments: args ?? {},
+      message: context.messages.join("; "),
+      commits: context.commits,
+      files: collapseWrites(context.written),
+      revertOf: context.revertOf,
+    });
+  };
+
+  // File access for tools. Inside a write tool call, reads record the version they
+  // saw and writes are made conditional on it (see runWithConflictRetry).
+  const readFile = async (relativePath: string): Promise<string> => {
+    const context = writeCallContext.getStore();
+    if (context?.dryRun && context.written.some(file => file.path === relativePath)) {
+      const pending = context.reads.get(relativePath);
+      if (!pending) throw new Error(`File not found: ${relativePath}`);
+      return pending.content;
+    }
+    const { content, version } = await storage.readVersioned(relativePath);
+    context?.reads.set(relativePath, { version, content });
+    return content;
+  };
+
+  const fileExists = async (relativePath: string): Promise<boolean> => {
+    const context = writeCallContext.getStore();
+    if (context?.dryRun && context.written.some(file => file.path === relativePath)) {
+      return context.reads.get(relativePath) !== null;
+    }
+    const exists = await storage.fileExists(relativePath);
+    if (!exists) {
+      writeCallContext.getStore()?.reads.set(relativePath, null);
+    }
+    return exists;
+  };
+
+  // Write files as one change, conditional on the versions this call read, and
+  // record what changed. Files the call never read are read first so the history
+  // has their previous content.
+  const trackWrite = async (files: Array<{ path: string; content: string | null }>, message: string): Promise<void> => {
+    // Refuse to write a data file that wouldn't match its schema
+    for (const file of files) {
+      if (file.content !== null && file.path.endsWith(".json")) {
+        checkDataFile(file.path, file.content, { writing: true });
+      }
+    }
+
+    const context = writeCallContext.getStore();
+    if (!context) {
+      // Not inside a write tool call (nothing to check or record)
+      await storage.writeFiles(files, message);
+      return;
+    }
+
+    for (const file of files) {
+      if (!context.reads.has(file.path)) {
+        context.reads.set(file.path, await storage.fileExists(file.path) ? await storage.readVersioned(file.path) : null);
+      }
+    }
+
+    const changes = files.map(file => {
+      const read = context.reads.get(file.path);
+      return { ...file, expectedVersion: read === null ? null : read?.version };
+    });
+    // A dry run only records the pending change below
+    let result: WriteResult = {};
+    let uncommitted: UncommittedWriteError | undefined;
+    if (!context.dryRun) {
+      try {
+        // A single file goes through writeFile, which is one request on GitHub
+        const [change] = changes;
+        result = changes.length === 1 && change.content !== null
+          ? await storage.writeFile(change.path, change.content, message, { expectedVersion: change.expectedVersion })
+          : await storage.writeFiles(changes, message);
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          context.conflict ??= error;
+        }
+        if (!(error instanceof UncommittedWriteError)) {
+          throw error;
+        }
+        // The files did change, so the write is recorded for the history and undo
+        // before the error is raised
+        uncommitted = error;
+      }
+    }
+
+    context.messages.push(message);
+    if (result.commit) context.commits.push(result.commit);
+    for (const file of files) {
+      context.written.push({ path: file.path, before: context.reads.get(file.path)?.content ?? null, after: file.content });
+      // The file has a new version now, so later writes in this call are unconditional
+      context.reads.set(file.path, file.content === null ? null : { content: file.content });
+    }
+    if (uncommitted) {
+      throw uncommitted;
+    }
+  };
+
+  const writeFile = (relativePath: string, content: string, message: string): Promise<void> =>
+    trackWrite([{ path: relativePath, content }], message);
+
+  // Write several files as one change: a single commit, and either all land or none do.
+  // Null content deletes a file.
+  const writeFiles = (files: Array<{ path: string; content: string | null }>, message: string): Promise<void> =>
+    trackWrite(files, message);
+
+  const toJson = (data: unknown): string => JSON.stringify(data, null, 2) + "\n";
+
+  // Data files are checked against their schema (see schemas.ts) on every read.
+  // Outside a write tool call the data goes back to the caller, so the
+  // schema_version stamp is dropped; write tools keep it to write it back.
+  const readJsonFile = async <T>(relativePath: string): Promise<T> => {
+    const data = checkDataFile(relativePath, await readFile(relativePath), { redacted: storage.redacted });
+    return (writeCallContext.getStore() ? data : withoutSchemaVersion(data)) as T;
+  };
+
+  const readMarkdownFile = (relativePath: string): Promise<string> => readFile(relativePath);
+
+  const writeJsonFile = (relativePath: string, data: unknown, message: string): Promise<void> =>
+    writeFile(relativePath, toJson(data), message);
+
+  const goalYearParam = z.number().int().min(1000).max(9999).optional().describe("Goals year (defaults to the current year)");
+
+  const missingGoalYear = async (year: number): Promise<CallToolResult> => {
+    const years = await listGoalYears(storage);
+    return {
+      content: [{
+        type: "text",
+        text: `No goals file for ${year}. Available years: ${years.length > 0 ? years.join(", ") : "none"}. Use start_new_goal_year to start ${year}.`,
+      }],
+    };
+  };
+
+  // Tool: Get Skills
+  registerTool(
+    "get_skills",
+    {
+      title: "Get Skills",
+      description: "Get all skills with proficiency levels, optionally filtered by category or level",
+      inputSchema: {
+        category: z.string().optional().describe("Filter by category (e.g., 'programming_languages', 'frameworks_and_libraries', 'databases')"),
+        min_level: z.enum(["none", "novice", "apprentice", "adept", "expert", "master"]).optional().describe("Minimum proficiency level"),
+      },
+    },
+    async ({ category, min_level }) => {
+      const skills = await readJsonFile<Record<string, unknown>>("profile/skills.json");
+
+      // Level order for comparison
+      const levelOrder = ["none", "novice", "apprentice", "adept", "expert", "master"];
+      const minLevelIndex = min_level ? levelOrder.indexOf(min_level) : 0;
+
+      const result: Array<{ category: string; name: string; level: string }> = [];
+
+      // Iterate over all categories (skip skill_levels which is metadata)
+      for (const [cat, skillsInCategory] of Object.entries(skills)) {
+        if (cat === "skill_levels") continue;
+        if (category && cat.toLowerCase() !== category.toLowerCase()) continue;
+        if (typeof skillsInCategory !== "object" || skillsInCategory === null) continue;
+
+        for (const [skillName, level] of Object.entries(skillsInCategory as Record<string, string>)) {
+          const skillLevelIndex = levelOrder.indexOf(level);
+          if (skillLevelIndex >= minLevelIndex) {
+            result.push({
+              category: cat,
+              name: skillName,
+              level: level,
+            });
+          }
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Experience
+  registerTool(
+    "get_experience",
+    {
+      title: "Get Experience",
+      description: "Get work experience history with roles, responsibilities, and achievements",
+      inputSchema: {
+        current_only: z.boolean().optional().describe("Only return current positions"),
+      },
+    },
+    async ({ current_only }) => {
+      const experience = await readJsonFile<Record<string, unknown>>("profile/experience.json");
+
+      // Convert object format { "Company": {...} } to array format
+      const positions = dataEntries(experience).map(([company, data]) => ({
+        company,
+        ...(data as Record<string, unknown>),
+      }));
+
+      let filtered = positions;
+      if (current_only) {
+        filtered = positions.filter(p => (p as { end_date?: string }).end_date === "Present");
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(filtered, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Projects
+  registerTool(
+    "get_projects",
+    {
+      title: "Get Projects",
+      description: "Get projects (active, planned, or completed)",
+      inputSchema: {
+        status: z.enum(["active", "planned", "completed"]).optional().describe("Filter by project status"),
+        tech: z.string().optional().describe("Filter by technology used"),
+      },
+    },
+    async ({ status, tech }) => {
+      const files: Record<string, string> = {
+        active: "projects/active.json",
+        planned: "projects/planned.json",
+        completed: "projects/completed.json",
+      };
+
+      let allProjects: Array<Record<string, unknown>> = [];
+
+      const statusesToCheck = status ? [status] : ["active", "planned", "completed"];
+
+      for (const s of statusesToCheck) {
+        try {
+          const data = await readJsonFile<Record<string, unknown>>(files[s]);
+          // Convert object format { "ProjectName": {...} } to array format
+          const projects = dataEntries(data).map(([name, projectData]) => ({
+            id: name,
+            ...(projectData as Record<string, unknown>),
+            status: s,
+          }));
+          allProjects.push(...projects);
+        } catch {
+          // File may not exist
+        }
+      }
+
+      if (tech) {
+        const techLower = tech.toLowerCase();
+        allProjects = allProjects.filter(p => {
+          const technologies = p.technologies as string[] | undefined;
+          return technologies?.some(t => t.toLowerCase().includes(techLower));
+        });
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(allProjects, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Goals
+  registerTool(
+    "get_goals",
+    {
+      title: "Get Goals",
+      description: "Get goals and their progress for a year (defaults to the current year)",
+      inputSchema: {
+        year: goalYearParam,
+        category: z.string().optional().describe("Filter by category (business, technical, community, content)"),
+        status: z.enum(["in_progress", "not_started", "completed"]).optional().describe("Filter by goal status"),
+      },
+    },
+    async ({ year = new Date().getFullYear(), category, status }) => {
+      if (!(await fileExists(goalsPath(year)))) {
+        return await missingGoalYear(year);
+      }
+      const goals = await readJsonFile<GoalsData>(goalsPath(year));
+
+      const result: GoalResult[] = [];
+
+      for (const [cat, data] of Object.entries(goals.categories)) {
+        if (category && cat !== category) continue;
+
+        for (const goal of data.goals) {
+          if (status && goal.status !== status) continue;
+
+          result.push({
+            category: cat,
+            categoryTitle: data.title,
+            goal: goal.goal,
+            status: goal.status,
+            target_date: goal.target_date,
+            metrics: goal.metrics,
+          });
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: List Goal Years
+  registerTool(
+    "list_goal_years",
+    {
+      title: "List Goal Years",
+      description: "List the years that have a goals file, with how many goals each has completed",
+    },
+    async () => {
+      const years = [];
+      for (const year of await listGoalYears(storage)) {
+        const goals = (await readJsonFile<GoalsData>(goalsPath(year))).categories;
+        const all = Object.values(goals).flatMap(category => category.goals);
+        years.push({
+          year,
+          path: goalsPath(year),
+          goals: all.length,
+          completed: all.filter(goal => goal.status === "completed").length,
+        });
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ current_year: new Date().getFullYear(), years }, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Profile Summary
+  registerTool(
+    "get_profile",
+    {
+      title: "Get Profile Summary",
+      description: "Get a complete profile summary including contact info, about myself, summary, and key stats",
+    },
+    async () => {
+      const contact = await readJsonFile<ContactData>("profile/contact.json");
+      const resume = await readMarkdownFile("profile/resume.md");
+      const aboutMe = await readJsonFile<AboutMeData>("profile/about-me.json");
+
+      // Extract summary from resume (between ## Summary and next ##)
+      const summaryMatch = resume.match(/## Summary\n\n([\s\S]*?)(?=\n##|$)/);
+      const summary = summaryMatch ? summaryMatch[1].trim() : "";
+
+      const profile: ProfileResult = {
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+        location: contact.location,
+        links: contact.links,
+        summary,
+        about_me: aboutMe,
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(profile, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Resume
+  registerTool(
+    "get_resume",
+    {
+      title: "Get Resume",
+      description: "Get the full resume in markdown format, or a specific generated resume variant",
+      inputSchema: {
+        variant: z.string().optional().describe("Resume variant (e.g., 'full-stack-react', 'frontend-react', 'nextjs-focused', 'general-swe'). Leave empty for base resume."),
+      },
+    },
+    async ({ variant }) => {
+      let resumePath = "profile/resume.md";
+
+      if (variant) {
+        try {
+          const manifest = await readJsonFile<ResumeManifest>("profile/resumes/latest-manifest.json");
+          const found = manifest.resumes.find(r => r.cluster === variant);
+          if (found) {
+            resumePath = `profile/resumes/${found.file}`;
+          }
+        } catch {
+          // No manifest, fall back to base resume
+        }
+      }
+
+      const resume = await readMarkdownFile(resumePath);
+
+      return {
+        content: [{ type: "text", text: resume }],
+      };
+    }
+  );
+
+  // Tool: Query Knowledge Base
+  registerTool(
+    "query_knowledge_base",
+    {
+      title: "Query Knowledge Base",
+      description: "Search and query the knowledge base with natural language. Returns relevant context for the query.",
+      inputSchema: {
+        query: z.string().describe("Natural language query about profile, projects, goals, or skills"),
+      },
+    },
+    async ({ query }) => {
+      const queryLower = query.toLowerCase();
+      const context: string[] = [];
+
+      if (queryLower.includes("skill") || queryLower.includes("tech") || queryLower.includes("know") || queryLower.includes("can")) {
+        const skills = await readJsonFile<SkillsData>("profile/skills.json");
+        context.push(`## Skills\n${JSON.stringify(skills, null, 2)}`);
+      }
+
+      if (queryLower.includes("experience") || queryLower.includes("work") || queryLower.includes("job") || queryLower.includes("role")) {
+        const experience = await readJsonFile<ExperienceData>("profile/experience.json");
+        context.push(`## Experience\n${JSON.stringify(experience, null, 2)}`);
+      }
+
+      if (queryLower.includes("project") || queryLower.includes("build") || queryLower.includes("built") || queryLower.includes("portfolio")) {
+        try {
+          const active = await readJsonFile<ProjectsData>("projects/active.json");
+          const completed = await readJsonFile<ProjectsData>("projects/completed.json");
+          context.push(`## Active Projects\n${JSON.stringify(active, null, 2)}`);
+          context.push(`## Completed Projects\n${JSON.stringify(completed, null, 2)}`);
+        } catch {
+          // Files may not exist
+        }
+      }
+
+      if (queryLower.includes("goal") || queryLower.includes("plan") || queryLower.includes("objective") || queryLower.includes("target")) {
+        try {
+          // This year's goals, or the latest year's if this year hasn't started yet
+          const currentYear = new Date().getFullYear();
+          const years = await listGoalYears(storage);
+          const year = years.includes(currentYear) ? currentYear : years[years.length - 1] ?? currentYear;
+          const goals = await readJsonFile<GoalsData>(goalsPath(year));
+          context.push(`## Goals (${year})\n${JSON.stringify(goals, null, 2)}`);
+        } catch {
+          // File may not exist
+        }
+      }
+
+      if (queryLower.includes("contact") || queryLower.includes("email") || queryLower.includes("phone") || queryLower.includes("linkedin")) {
+        const contact = await readJsonFile<ContactData>("profile/contact.json");
+        context.push(`## Contact\n${JSON.stringify(contact, null, 2)}`);
+      }
+
+      if (queryLower.includes("education") || queryLower.includes("degree") || queryLower.includes("cert") || queryLower.includes("school")) {
+        const education = await readJsonFile<unknown>("profile/education.json");
+        context.push(`## Education\n${JSON.stringify(education, null, 2)}`);
+      }
+
+      if (context.length === 0) {
+        const contact = await readJsonFile<ContactData>("profile/contact.json");
+        const resume = await readMarkdownFile("profile/resume.md");
+        context.push(`## Profile Overview\n${JSON.stringify(contact, null, 2)}`);
+        context.push(`## Resume\n${resume}`);
+      }
+
+      return {
+        content: [{ type: "text", text: context.join("\n\n---\n\n") }],
+      };
+    }
+  );
+
+  // Tool: Get Job Opportunities
+  registerTool(
+    "get_job_opportunities",
+    {
+      title: "Get Job Opportunities",
+      description: "Get recently discovered job opportunities from automated monitoring",
+      inputSchema: {
+        cluster: z.string().optional().describe("Filter by resume cluster (full-stack-react, frontend-react, nextjs-focused, general-swe)"),
+        limit: z.number().optional().describe("Maximum number of jobs to return"),
+      },
+    },
+    async ({ cluster, limit }) => {
+      try {
+        const opportunities = await readJsonFile<Record<string, unknown>>("job-applications/opportunities/latest.json");
+
+        // Use top_jobs array from the actual file structure
+        let jobs = (opportunities.top_jobs as Array<Record<string, unknown>>) || [];
+
+        if (cluster) {
+          jobs = jobs.filter(j => j.cluster === cluster);
+        }
+
+        if (limit) {
+          jobs = jobs.slice(0, limit);
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(jobs, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "No job opportunities file found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Business Info
+  registerTool(
+    "get_business_info",
+    {
+      title: "Get Business Info",
+      description: "Get business information for Codaissance or TamperTantrum Labs including strategy, personas, and marketing",
+      inputSchema: {
+        business: z.enum(["codaissance", "tampertantrum-labs"]).describe("Which business to get info for"),
+        include: z.array(z.enum(["strategy", "personas", "marketing"])).optional().describe("Which data to include (defaults to all)"),
+      },
+    },
+    async ({ business, include }) => {
+      const includeAll = !include || include.length === 0;
+      const result: Record<string, unknown> = { business };
+
+      if (includeAll || include?.includes("strategy")) {
+        try {
+          const strategy = await readJsonFile<BusinessStrategy>(`business/${business}/strategy.json`);
+          result.strategy = strategy;
+        } catch {
+          // File may not exist
+        }
+      }
+
+      if (includeAll || include?.includes("personas")) {
+        try {
+          const personas = await readJsonFile<PersonasData>(`business/${business}/personas.json`);
+          result.personas = personas;
+        } catch {
+          // File may not exist
+        }
+      }
+
+      if (includeAll || include?.includes("marketing")) {
+        try {
+          const marketing = await readJsonFile<MarketingData>(`business/${business}/marketing.json`);
+          result.marketing = marketing;
+        } catch {
+          // File may not exist
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Learning Roadmap
+  registerTool(
+    "get_learning_roadmap",
+    {
+      title: "Get Learning Roadmap",
+      description: "Get learning roadmap with current focus, queue, and completed learning",
+      inputSchema: {
+        section: z.enum(["current_focus", "queue", "backlog", "on_hold", "completed"]).optional().describe("Specific section to retrieve (defaults to all)"),
+      },
+    },
+    async ({ section }) => {
+      const result: Record<string, unknown> = {};
+
+      if (!section || section !== "completed") {
+        try {
+          const roadmap = await readJsonFile<LearningRoadmapData>("learning/roadmap.json");
+          if (section) {
+            result[section] = roadmap[section as keyof LearningRoadmapData];
+          } else {
+            result.roadmap = roadmap;
+          }
+        } catch {
+          // File may not exist
+        }
+      }
+
+      if (!section || section === "completed") {
+        try {
+          const completed = await readJsonFile<CompletedLearningData>("learning/completed.json");
+          result.completed = completed.entries;
+        } catch {
+          // File may not exist
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Ideas
+  registerTool(
+    "get_ideas",
+    {
+      title: "Get Ideas",
+      description: "Get ideas from personal, Codaissance, or TamperTantrum Labs idea banks",
+      inputSchema: {
+        source: z.enum(["personal", "codaissance", "tampertantrum-labs", "all"]).optional().describe("Which idea source to retrieve (defaults to all)"),
+        status: z.enum(["raw", "validating", "validated", "rejected", "moved_to_projects"]).optional().describe("Filter by idea status"),
+      },
+    },
+    async ({ source, status }) => {
+      const sources: Record<string, string> = {
+        personal: "ideas/personal/ideas.json",
+        codaissance: "ideas/business/codaissance/ideas.json",
+        "tampertantrum-labs": "ideas/business/tampertantrum-labs/ideas.json",
+      };
+
+      const sourcesToCheck = source && source !== "all" ? [source] : ["personal", "codaissance", "tampertantrum-labs"];
+      const allIdeas: Array<{ source: string; ideas: Idea[] }> = [];
+
+      for (const s of sourcesToCheck) {
+        try {
+          const data = await readJsonFile<IdeasData>(sources[s]);
+          let ideas = data.ideas || [];
+
+          if (status) {
+            ideas = ideas.filter(i => i.status === status);
+          }
+
+          if (ideas.length > 0) {
+            allIdeas.push({ source: s, ideas });
+          }
+        } catch {
+          // File may not exist
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(allIdeas, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Education
+  registerTool(
+    "get_education",
+    {
+      title: "Get Education",
+      description: "Get education history including degrees, certifications, and self-taught learning",
+      inputSchema: {
+        include: z.array(z.enum(["degrees", "certifications", "self_taught"])).optional().describe("What to include (defaults to all)"),
+      },
+    },
+    async ({ include }) => {
+      const education = await readJsonFile<EducationData>("profile/education.json");
+      const includeAll = !include || include.length === 0;
+
+      const result: Record<string, unknown> = {};
+
+      if (includeAll || include?.includes("degrees")) {
+        // Extract degree entries (not the certifications array)
+        const degrees: Record<string, unknown> = {};
+        for (const [key, value] of dataEntries(education)) {
+          if (key !== "certifications" && typeof value === "object") {
+            degrees[key] = value;
+          }
+        }
+        result.degrees = degrees;
+      }
+
+      if (includeAll || include?.includes("certifications")) {
+        const certifications = education.certifications || [];
+        result.certifications = certifications.filter(entry => entry.type !== "certificate");
+        result.certificates = certifications.filter(entry => entry.type === "certificate");
+      }
+
+      if (includeAll || include?.includes("self_taught")) {
+        result.self_taught = education.self_taught_learning || null;
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Preferences
+  registerTool(
+    "get_preferences",
+    {
+      title: "Get Preferences",
+      description: "Get work preferences including learning style, work environment, schedule, coding style, and tools",
+      inputSchema: {
+        category: z.enum(["learning", "work_environment", "schedule", "coding_style", "tools"]).optional().describe("Specific preference category (defaults to all)"),
+      },
+    },
+    async ({ category }) => {
+      const preferences = await readJsonFile<Record<string, unknown>>("profile/preferences.json");
+
+      if (category) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ [category]: preferences[category] }, null, 2) }],
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preferences, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get LinkedIn Metrics
+  registerTool(
+    "get_linkedin_metrics",
+    {
+      title: "Get LinkedIn Metrics",
+      description: "Get LinkedIn metrics for personal account, Codaissance page, or TamperTantrum Labs page",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum"]).optional().describe("Which account to get metrics for (defaults to all)"),
+      },
+    },
+    async ({ account }) => {
+      const accounts: Record<string, string> = {
+        personal: "linkedin/personal-metrics.json",
+        codaissance: "linkedin/codaissance-metrics.json",
+        tampertantrum: "linkedin/tampertantrum-metrics.json",
+      };
+
+      const accountsToCheck = account ? [account] : ["personal", "codaissance", "tampertantrum"];
+      const result: Record<string, unknown> = {};
+
+      for (const acc of accountsToCheck) {
+        try {
+          const metrics = await readJsonFile<Record<string, unknown>>(accounts[acc]);
+          result[acc] = metrics;
+        } catch {
+          result[acc] = { error: "No metrics data available" };
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Get Assessments
+  registerTool(
+    "get_assessments",
+    {
+      title: "Get Assessments",
+      description: "Get self-assessments. Note: Returns list of available assessments or content of a specific one.",
+      inputSchema: {
+        date: z.string().optional().describe("Specific assessment date (YYYY-MM format, e.g., '2025-12'). Leave empty to get list of available assessments."),
+      },
+    },
+    async ({ date }) => {
+      if (date) {
+        try {
+          const assessment = await readMarkdownFile(`assessments/${date}-assessment.md`);
+          return {
+            content: [{ type: "text", text: assessment }],
+          };
+        } catch {
+          return {
+            content: [{ type: "text", text: `Assessment for ${date} not found.` }],
+          };
+        }
+      }
+
+      // Return info about available assessments
+      return {
+        content: [{ type: "text", text: "To get a specific assessment, provide a date in YYYY-MM format (e.g., '2025-12'). Assessments are stored as {date}-assessment.md files." }],
+      };
+    }
+  );
+
+  // Tool: Get Business Roadmap
+  registerTool(
+    "get_business_roadmap",
+    {
+      title: "Get Business Roadmap",
+      description: "Get the product/consulting roadmap for Codaissance or TamperTantrum Labs",
+      inputSchema: {
+        business: z.enum(["codaissance", "tampertantrum-labs"]).describe("Which business roadmap to get"),
+      },
+    },
+    async ({ business }) => {
+      try {
+        const roadmap = await readMarkdownFile(`business/${business}/roadmap.md`);
+        return {
+          content: [{ type: "text", text: roadmap }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: `Roadmap for ${business} not found.` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Job Applications
+  registerTool(
+    "get_job_applications",
+    {
+      title: "Get Job Applications",
+      description: "Get job applications tracking data with status, companies, and outcomes",
+      inputSchema: {
+        status: z.enum(["applied", "screening", "interviewing", "offer", "rejected", "withdrawn", "ghosted"]).optional().describe("Filter by application status"),
+        limit: z.number().optional().describe("Maximum number of applications to return"),
+      },
+    },
+    async ({ status, limit }) => {
+      try {
+        const data = await readJsonFile<{ applications: Array<Record<string, unknown>> }>("job-applications/applications.json");
+        let applications = data.applications || [];
+
+        // Filter out template entries (empty id or company)
+        applications = applications.filter(app => app.id && app.company);
+
+        if (status) {
+          applications = applications.filter(app => app.status === status);
+        }
+
+        if (limit) {
+          applications = applications.slice(0, limit);
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(applications, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "No job applications data found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Interviews
+  registerTool(
+    "get_interviews",
+    {
+      title: "Get Interviews",
+      description: "Get interview tracking data including prep notes, questions asked, and outcomes",
+      inputSchema: {
+        company: z.string().optional().describe("Filter by company name"),
+        outcome: z.enum(["passed", "rejected", "pending", "unknown"]).optional().describe("Filter by interview outcome"),
+      },
+    },
+    async ({ company, outcome }) => {
+      try {
+        const data = await readJsonFile<{ interviews: Array<Record<string, unknown>> }>("job-applications/interviews.json");
+        let interviews = data.interviews || [];
+
+        // Filter out template entries (empty id or company)
+        interviews = interviews.filter(int => int.id && int.company);
+
+        if (company) {
+          const companyLower = company.toLowerCase();
+          interviews = interviews.filter(int =>
+            (int.company as string)?.toLowerCase().includes(companyLower)
+          );
+        }
+
+        if (outcome) {
+          interviews = interviews.filter(int => int.outcome === outcome);
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(interviews, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "No interview data found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Career Roadmap
+  registerTool(
+    "get_career_roadmap",
+    {
+      title: "Get Career Roadmap",
+      description: "Get career roadmap with milestones, parallel tracks, success metrics, and risk mitigation",
+      inputSchema: {
+        section: z.enum(["milestones", "parallel_tracks", "success_metrics", "risk_mitigation", "all"]).optional().describe("Specific section to retrieve (defaults to all)"),
+        milestone_status: z.enum(["in_progress", "not_started", "completed"]).optional().describe("Filter milestones by status"),
+      },
+    },
+    async ({ section, milestone_status }) => {
+      try {
+        const roadmap = await readJsonFile<Record<string, unknown>>("career/roadmap.json");
+        const careerRoadmap = roadmap.career_roadmap as Record<string, unknown>;
+
+        if (!section || section === "all") {
+          if (milestone_status) {
+            const milestones = (careerRoadmap.milestones as Array<Record<string, unknown>>) || [];
+            const filtered = milestones.filter(m => m.status === milestone_status);
+            return {
+              content: [{ type: "text", text: JSON.stringify({ ...careerRoadmap, milestones: filtered }, null, 2) }],
+            };
+          }
+          return {
+            content: [{ type: "text", text: JSON.stringify(careerRoadmap, null, 2) }],
+          };
+        }
+
+        const sectionData = careerRoadmap[section];
+        if (section === "milestones" && milestone_status) {
+          const milestones = (sectionData as Array<Record<string, unknown>>) || [];
+          const filtered = milestones.filter(m => m.status === milestone_status);
+          return {
+            content: [{ type: "text", text: JSON.stringify(filtered, null, 2) }],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(sectionData, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "Career roadmap not found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Chief Aim
+  registerTool(
+    "get_chief_aim",
+    {
+      title: "Get Chief Aim",
+      description: "Get Napoleon Hill success principles framework including definite purpose, mastermind alliance, and career vision",
+      inputSchema: {
+        principle: z.string().optional().describe("Specific principle to retrieve (e.g., 'definiteness_of_purpose', 'master_mind_alliance', 'self_discipline'). Leave empty for all."),
+      },
+    },
+    async ({ principle }) => {
+      try {
+        const chiefAim = await readJsonFile<Record<string, unknown>>("career/chief-aim.json");
+        const principles = chiefAim.napoleon_hill_principles as Record<string, unknown>;
+
+        if (principle) {
+          const data = principles[principle];
+          if (data) {
+            return {
+              content: [{ type: "text", text: JSON.stringify({ [principle]: data }, null, 2) }],
+            };
+          }
+          // Also check career_vision_questions
+          if (principle === "career_vision_questions" && chiefAim.career_vision_questions) {
+            return {
+              content: [{ type: "text", text: JSON.stringify({ career_vision_questions: chiefAim.career_vision_questions }, null, 2) }],
+            };
+          }
+          return {
+            content: [{ type: "text", text: `Principle '${principle}' not found. Available: ${Object.keys(principles).join(", ")}, career_vision_questions` }],
+          };
+        }
+
+        // Return summary instead of full document (29KB is too large for output)
+        const summary = {
+          available_principles: Object.keys(principles),
+          career_vision_questions: chiefAim.career_vision_questions,
+          definite_chief_aim: (principles.definiteness_of_purpose as Record<string, unknown>)?.my_definite_chief_aim,
+          usage: "Call with principle parameter to get details (e.g., principle: 'definiteness_of_purpose')",
+        };
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "Chief aim document not found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Financials
+  registerTool(
+    "get_financials",
+    {
+      title: "Get Financials",
+      description: "Get financial data for Codaissance or TamperTantrum Labs including revenue, expenses, and milestones",
+      inputSchema: {
+        business: z.enum(["codaissance", "tampertantrum-labs"]).describe("Which business financials to get"),
+        section: z.enum(["revenue", "expenses", "metrics", "milestones", "all"]).optional().describe("Specific section (defaults to all)"),
+      },
+    },
+    async ({ business, section }) => {
+      try {
+        const financials = await readJsonFile<Record<string, unknown>>(`business/${business}/financials.json`);
+
+        if (!section || section === "all") {
+          return {
+            content: [{ type: "text", text: JSON.stringify({ business, ...financials }, null, 2) }],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({ business, [section]: financials[section] }, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: `Financials for ${business} not found.` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get LinkedIn Profile
+  registerTool(
+    "get_linkedin_profile",
+    {
+      title: "Get LinkedIn Profile",
+      description: "Get LinkedIn profile data (not metrics) including headlines, bios, and follower counts",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum_labs", "all"]).optional().describe("Which account profile to get (defaults to all)"),
+      },
+    },
+    async ({ account }) => {
+      try {
+        const profile = await readJsonFile<Record<string, unknown>>("linkedin/profile.json");
+
+        if (account && account !== "all") {
+          return {
+            content: [{ type: "text", text: JSON.stringify({ [account]: profile[account] }, null, 2) }],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(profile, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "LinkedIn profile data not found." }],
+        };
+      }
+    }
+  );
+
+  // Tool: Get Content Ideas
+  registerTool(
+    "get_content_ideas",
+    {
+      title: "Get Content Ideas",
+      description: "Get LinkedIn content strategy including pillars, calendar, post structure, and content bank",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum"]).optional().describe("Filter content ideas by account"),
+        section: z.enum(["pillars", "calendar", "post_structure", "content_bank", "all"]).optional().describe("Specific section (defaults to all)"),
+      },
+    },
+    async ({ account, section }) => {
+      try {
+        const contentIdeas = await readJsonFile<Record<string, unknown>>("linkedin/content-ideas.json");
+
+        const result: Record<string, unknown> = {};
+
+        if (!section || section === "all") {
+          if (account) {
+            // Return account-specific data
+            const accounts = contentIdeas.accounts as Record<string, unknown>;
+            result.account_info = accounts[account];
+
+            const contentBank = contentIdeas.content_bank as Record<string, unknown>;
+            result.content_bank = contentBank[account];
+
+            result.post_structure = contentIdeas.post_structure;
+            result.calendar = contentIdeas.calendar;
+          } else {
+            return {
+              content: [{ type: "text", text: JSON.stringify(contentIdeas, null, 2) }],
+            };
+          }
+        } else {
+          if (section === "pillars" && account) {
+            const accounts = contentIdeas.accounts as Record<string, Record<string, unknown>>;
+            result.pillars = accounts[account]?.pillars;
+          } else if (section === "content_bank" && account) {
+            const contentBank = contentIdeas.content_bank as Record<string, unknown>;
+            result.content_bank = contentBank[account];
+          } else {
+            result[section] = contentIdeas[section];
+          }
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      } catch {
+        return {
+          content: [{ type: "text", text: "Content ideas data not found." }],
+        };
+      }
+    }
+  );
+
+  // ============================================
+  // UPDATE/WRITE TOOLS
+  // ============================================
+
+  // Tool: Update Skill
+  registerTool(
+    "update_skill",
+    {
+      title: "Update Skill",
+      description: "Add a new skill or update the proficiency level of an existing skill",
+      inputSchema: {
+        category: z.string().describe("Skill category (e.g., 'programming_languages', 'frameworks_and_libraries', 'databases', 'cloud_and_devops', 'tools', 'AI', 'other')"),
+        skill_name: z.string().describe("Name of the skill"),
+        level: z.enum(["none", "novice", "apprentice", "adept", "expert", "master"]).describe("Proficiency level"),
+      },
+    },
+    async ({ category, skill_name, level }) => {
+      try {
+        const skills = await readJsonFile<Record<string, Record<string, string>>>("profile/skills.json");
+
+        // Ensure category exists
+        if (!skills[category]) {
+          skills[category] = {};
+        }
+
+        const previousLevel = skills[category][skill_name];
+        skills[category][skill_name] = level;
+
+        await writeJsonFile(
+          "profile/skills.json",
+          skills,
+          `Update skill: ${skill_name} (${previousLevel || "new"} → ${level})`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully ${previousLevel ? "updated" : "added"} skill "${skill_name}" in ${category} to level "${level}"` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update skill: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Add Experience
+  registerTool(
+    "add_experience",
+    {
+      title: "Add Experience",
+      description: "Add a new work experience/job entry",
+      inputSchema: {
+        company: z.string().describe("Company name"),
+        role: z.string().describe("Job title/role"),
+        start_date: z.string().describe("Start date (YYYY-MM-DD format)"),
+        end_date: z.string().optional().describe("End date (YYYY-MM-DD format) or 'Present' for current role"),
+        location: z.string().optional().describe("Job location"),
+        job_type: z.enum(["remote", "hybrid", "onsite"]).optional().describe("Type of work arrangement"),
+        responsibilities: z.array(z.string()).optional().describe("List of key responsibilities"),
+        technologies: z.array(z.string()).optional().describe("Technologies used in this role"),
+      },
+    },
+    async ({ company, role, start_date, end_date, location, job_type, responsibilities, technologies }) => {
+      try {
+        const experience = await readJsonFile<Record<string, unknown>>("profile/experience.json");
+
+        experience[company] = {
+          role,
+          start_date,
+          end_date: end_date || "Present",
+          ...(location && { location }),
+          ...(job_type && { job_type }),
+          ...(responsibilities && { responsibilities }),
+          ...(technologies && { technologies }),
+        };
+
+        await writeJsonFile(
+          "profile/experience.json",
+          experience,
+          `Add experience: ${role} at ${company}`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully added experience: ${role} at ${company}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add experience: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Add Certification
+  registerTool(
+    "add_certification",
+    {
+      title: "Add Certification",
+      description: "Add a new certification or certificate to education",
+      inputSchema: {
+        type: z.enum(["certification", "certificate"]).describe("Type: 'certification' for professional certs, 'certificate' for course completions"),
+        name: z.string().describe("Name of the certification/certificate"),
+        issuer: z.string().describe("Issuing organization"),
+        date: z.string().describe("Date earned (YYYY-MM-DD format)"),
+        credential_id: z.string().optional().describe("Credential ID if applicable"),
+        url: z.string().optional().describe("Verification URL"),
+      },
+    },
+    async ({ type, name, issuer, date, credential_id, url }) => {
+      try {
+        const education = await readJsonFile<EducationData>("profile/education.json");
+
+        if (!education.certifications) {
+          education.certifications = [];
+        }
+
+        const entry: Certification = { name, issuer, date, type };
+        if (credential_id) entry.credential_id = credential_id;
+        if (url) entry.url = url;
+
+        education.certifications.push(entry);
+
+        await writeJsonFile(
+          "profile/education.json",
+          education,
+          `Add ${type}: ${name} from ${issuer}`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully added ${type}: ${name} from ${issuer}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add certification: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Update Project Status
+  registerTool(
+    "update_project_status",
+    {
+      title: "Update Project Status",
+      description: "Update a project's status, completion percentage, or move between active/planned/completed",
+      inputSchema: {
+        project_id: z.string().describe("Project identifier (slug/key from the JSON)"),
+        current_status: z.enum(["active", "planned", "completed"]).describe("Current status file where the project is"),
+        new_status: z.enum(["active", "planned", "completed"]).optional().describe("Move project to a different status file"),
+        completion: z.number().min(0).max(100).optional().describe("Update completion percentage (0-100)"),
+        priority: z.enum(["low", "medium", "high", "critical"]).optional().describe("Update project priority"),
+      },
+    },
+    async ({ project_id, current_status, new_status, completion, priority }) => {
+      try {
+        const currentFile = `projects/${current_status}.json`;
+        const projects = await readJsonFile<Record<string, Record<string, unknown>>>(currentFile);
+
+        if (!projects[project_id]) {
+          return {
+            content: [{ type: "text", text: `Project "${project_id}" not found in ${current_status}.json` }],
+          };
+        }
+
+        const project = projects[project_id];
+
+        // Update fields
+        if (completion !== undefined) {
+          project.completion_percentage = completion;
+        }
+        if (priority) {
+          project.priority = priority;
+        }
+
+        // Move to different status file if requested
+        if (new_status && new_status !== current_status) {
+          // Remove from current file and add to new file in one commit
+          delete projects[project_id];
+          const newFile = `projects/${new_status}.json`;
+          const newProjects = await readJsonFile<Record<string, Record<string, unknown>>>(newFile);
+          project.status = new_status;
+          newProjects[project_id] = project;
+          await writeFiles(
+            [
+              { path: currentFile, content: toJson(projects) },
+              { path: newFile, content: toJson(newProjects) },
+            ],
+            `Move project ${project_id} from ${current_status} to ${new_status}`
+          );
+
+          return {
+            content: [{ type: "text", text: `Successfully moved project "${project_id}" from ${current_status} to ${new_status}` }],
+          };
+        } else {
+          // Just update in place
+          projects[project_id] = project;
+          await writeJsonFile(currentFile, projects, `Update project ${project_id}: completion=${completion}, priority=${priority}`);
+
+          return {
+            content: [{ type: "text", text: `Successfully updated project "${project_id}"` }],
+          };
+        }
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update project: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Add Project
+  registerTool(
+    "add_project",
+    {
+      title: "Add Project",
+      description: "Add a new project to the planned projects list",
+      inputSchema: {
+        id: z.string().describe("Project identifier (slug, e.g., 'my-new-project')"),
+        name: z.string().describe("Project name"),
+        description: z.string().describe("Project description"),
+        type: z.enum(["saas", "open-source", "template", "tool", "library", "website"]).describe("Project type"),
+        technologies: z.array(z.string()).describe("Technologies to be used"),
+        problem: z.string().describe("Problem the project solves"),
+        solution: z.string().describe("How the project solves the problem"),
+        target_audience: z.array(z.string()).describe("Target audience"),
+        priority: z.enum(["low", "medium", "high", "critical"]).optional().describe("Project priority"),
+      },
+    },
+    async ({ id, name, description, type, technologies, problem, solution, target_audience, priority }) => {
+      try {
+        const projects = await readJsonFile<Record<string, Record<string, unknown>>>("projects/planned.json");
+
+        if (projects[id]) {
+          return {
+            content: [{ type: "text", text: `Project "${id}" already exists in planned.json` }],
+          };
+        }
+
+        projects[id] = {
+          name,
+          description,
+          type,
+          technologies,
+          problem,
+          solution,
+          target_audience,
+          status: "planned",
+          completion_percentage: 0,
+          priority: priority || "medium",
+          date_added: new Date().toISOString().split("T")[0],
+        };
+
+        await writeJsonFile("projects/planned.json", projects, `Add planned project: ${name}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully added project "${name}" to planned projects` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add project: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Log Job Application
+  registerTool(
+    "log_job_application",
+    {
+      title: "Log Job Application",
+      description: "Log a new job application",
+      inputSchema: {
+        company: z.string().describe("Company name"),
+        role: z.string().describe("Job title/role"),
+        url: z.string().optional().describe("Job posting URL"),
+        source: z.string().optional().describe("Where you found the job (LinkedIn, HN, etc.)"),
+        salary_range: z.string().optional().describe("Salary range if known"),
+        location: z.string().optional().describe("Job location"),
+        status: z.enum(["applied", "screening", "interviewing", "offer", "rejected", "withdrawn", "ghosted"]).optional().describe("Application status"),
+        notes: z.string().optional().describe("Additional notes"),
+      },
+    },
+    async ({ company, role, url, source, salary_range, location, status, notes }) => {
+      try {
+        const data = await readJsonFile<{ applications: Array<Record<string, unknown>> }>("job-applications/applications.json");
+
+        if (!data.applications) {
+          data.applications = [];
+        }
+
+        // Generate ID
+        const id = `app-${Date.now()}`;
+        const date_applied = new Date().toISOString().split("T")[0];
+
+        const application: Record<string, unknown> = {
+          id,
+          company,
+          role,
+          date_applied,
+          status: status || "applied",
+          last_updated: date_applied,
+        };
+
+        if (url) application.url = url;
+        if (source) application.source = source;
+        if (salary_range) application.salary_range = salary_range;
+        if (location) application.location = location;
+        if (notes) application.notes = notes;
+
+        data.applications.push(application);
+
+        await writeJsonFile(
+          "job-applications/applications.json",
+          data,
+          `Log job application: ${role} at ${company}`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully logged application for ${role} at ${company} (ID: ${id})` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to log application: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Log Interview
+  registerTool(
+    "log_interview",
+    {
+      title: "Log Interview",
+      description: "Log an interview for a job application",
+      inputSchema: {
+        company: z.string().describe("Company name"),
+        role: z.string().describe("Job title/role"),
+        round: z.number().describe("Interview round number"),
+        type: z.enum(["phone", "video", "onsite", "technical", "behavioral", "panel"]).describe("Interview type"),
+        date: z.string().describe("Interview date (YYYY-MM-DD)"),
+        interviewer: z.string().optional().describe("Interviewer name"),
+        interviewer_role: z.string().optional().describe("Interviewer's role/title"),
+        prep_notes: z.string().optional().describe("Preparation notes"),
+        outcome: z.enum(["passed", "rejected", "pending", "unknown"]).optional().describe("Interview outcome"),
+        notes: z.string().optional().describe("Post-interview notes"),
+      },
+    },
+    async ({ company, role, round, type, date, interviewer, interviewer_role, prep_notes, outcome, notes }) => {
+      try {
+        const data = await readJsonFile<{ interviews: Array<Record<string, unknown>> }>("job-applications/interviews.json");
+
+        if (!data.interviews) {
+          data.interviews = [];
+        }
+
+        const id = `int-${Date.now()}`;
+
+        const interview: Record<string, unknown> = {
+          id,
+          company,
+          role,
+          round,
+          type,
+          date,
+          outcome: outcome || "pending",
+        };
+
+        if (interviewer) interview.interviewer = interviewer;
+        if (interviewer_role) interview.interviewer_role = interviewer_role;
+        if (prep_notes) interview.prep_notes = prep_notes;
+        if (notes) interview.notes = notes;
+
+        data.interviews.push(interview);
+
+        await writeJsonFile(
+          "job-applications/interviews.json",
+          data,
+          `Log interview: Round ${round} at ${company}`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully logged Round ${round} ${type} interview at ${company} (ID: ${id})` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to log interview: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Update Financials
+  registerTool(
+    "update_financials",
+    {
+      title: "Update Financials",
+      description: "Update financial data for Codaissance or TamperTantrum Labs",
+      inputSchema: {
+        business: z.enum(["codaissance", "tampertantrum-labs"]).describe("Which business to update"),
+        mrr: z.number().optional().describe("Update Monthly Recurring Revenue"),
+        customers: z.number().optional().describe("Update customer count"),
+        expense_name: z.string().optional().describe("Name of expense to add"),
+        expense_amount: z.number().optional().describe("Amount of expense to add"),
+        expense_type: z.enum(["monthly_recurring", "one_time"]).optional().describe("Type of expense"),
+      },
+    },
+    async ({ business, mrr, customers, expense_name, expense_amount, expense_type }) => {
+      try {
+        const financials = await readJsonFile<Record<string, unknown>>(`business/${business}/financials.json`);
+
+        const updates: string[] = [];
+
+        if (mrr !== undefined) {
+          (financials.revenue as Record<string, unknown>).mrr = mrr;
+          (financials.revenue as Record<string, unknown>).arr = mrr * 12;
+          updates.push(`MRR: $${mrr}`);
+        }
+
+        if (customers !== undefined) {
+          (financials.metrics as Record<string, unknown>).customers = customers;
+          updates.push(`Customers: ${customers}`);
+        }
+
+        if (expense_name && expense_amount !== undefined && expense_type) {
+          const expenses = financials.expenses as Record<string, unknown[]>;
+          if (!expenses[expense_type]) {
+            expenses[expense_type] = [];
+          }
+          expenses[expense_type].push({
+            name: expense_name,
+            amount: expense_amount,
+            date: new Date().toISOString().split("T")[0],
+          });
+          updates.push(`Expense: ${expense_name} ($${expense_amount})`);
+        }
+
+        await writeJsonFile(
+          `business/${business}/financials.json`,
+          financials,
+          `Update ${business} financials: ${updates.join(", ")}`
+        );
+
+        return {
+          content: [{ type: "text", text: `Successfully updated ${business} financials: ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update financials: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Update LinkedIn Metrics
+  registerTool(
+    "update_linkedin_metrics",
+    {
+      title: "Update LinkedIn Metrics",
+      description: "Update LinkedIn metrics for personal or company pages",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum"]).describe("Which account to update"),
+        connections: z.number().optional().describe("Update connection/follower count"),
+        profile_views: z.number().optional().describe("Update profile views"),
+        post_impressions: z.number().optional().describe("Update post impressions"),
+        search_appearances: z.number().optional().describe("Update search appearances"),
+      },
+    },
+    async ({ account, connections, profile_views, post_impressions, search_appearances }) => {
+      try {
+        const filePath = `linkedin/${account}-metrics.json`;
+        const metrics = await readJsonFile<Record<string, unknown>>(filePath);
+
+        const updates: string[] = [];
+        const today = new Date().toISOString().split("T")[0];
+
+        if (connections !== undefined) {
+          metrics.connections = connections;
+          metrics.followers = connections;
+          updates.push(`connections: ${connections}`);
+        }
+
+        if (profile_views !== undefined) {
+          metrics.profile_views = profile_views;
+          updates.push(`profile_views: ${profile_views}`);
+        }
+
+        if (post_impressions !== undefined) {
+          metrics.post_impressions = post_impressions;
+          updates.push(`post_impressions: ${post_impressions}`);
+        }
+
+        if (search_appearances !== undefined) {
+          metrics.search_appearances = search_appearances;
+          updates.push(`search_appearances: ${search_appearances}`);
+        }
+
+        metrics.last_updated = today;
+
+        await writeJsonFile(filePath, metrics, `Update ${account} LinkedIn metrics: ${updates.join(", ")}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully updated ${account} LinkedIn metrics: ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update LinkedIn metrics: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Add Idea
+  registerTool(
+    "add_idea",
+    {
+      title: "Add Idea",
+      description: "Add a new idea to personal or business idea banks",
+      inputSchema: {
+        source: z.enum(["personal", "codaissance", "tampertantrum-labs"]).describe("Which idea bank to add to"),
+        name: z.string().describe("Idea name/title"),
+        description: z.string().describe("Idea description"),
+        problem: z.string().describe("Problem it solves"),
+        solution: z.string().describe("Proposed solution"),
+        target_audience: z.string().optional().describe("Target audience"),
+        effort: z.enum(["low", "medium", "high"]).optional().describe("Estimated effort level"),
+        potential_value: z.enum(["low", "medium", "high"]).optional().describe("Potential value/impact"),
+      },
+    },
+    async ({ source, name, description, problem, solution, target_audience, effort, potential_value }) => {
+      try {
+        const filePath = source === "personal"
+          ? "ideas/personal/ideas.json"
+          : `ideas/business/${source}/ideas.json`;
+
+        const data = await readJsonFile<{ ideas: Array<Record<string, unknown>> }>(filePath);
+
+        if (!data.ideas) {
+          data.ideas = [];
+        }
+
+        const today = new Date().toISOString().split("T")[0];
+
+        data.ideas.push({
+          name,
+          description,
+          problem,
+          solution,
+          target_audience: target_audience || "",
+          effort: effort || "medium",
+          potential_value: potential_value || "medium",
+          status: "raw",
+          date_added: today,
+          date_updated: today,
+        });
+
+        await writeJsonFile(filePath, data, `Add idea: ${name}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully added idea "${name}" to ${source} ideas` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add idea: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Update Milestone
+  registerTool(
+    "update_milestone",
+    {
+      title: "Update Milestone",
+      description: "Update a career roadmap milestone's status or completion percentage",
+      inputSchema: {
+        milestone_id: z.string().describe("Milestone ID (e.g., 'm1', 'm2', etc.)"),
+        status: z.enum(["in_progress", "not_started", "completed"]).optional().describe("Update milestone status"),
+        completion: z.number().min(0).max(100).optional().describe("Update completion percentage"),
+      },
+    },
+    async ({ milestone_id, status, completion }) => {
+      try {
+        const roadmap = await readJsonFile<{ career_roadmap: { milestones: Array<Record<string, unknown>>; last_updated: string } }>("career/roadmap.json");
+
+        const milestone = roadmap.career_roadmap.milestones.find(m => m.id === milestone_id);
+
+        if (!milestone) {
+          return {
+            content: [{ type: "text", text: `Milestone "${milestone_id}" not found` }],
+          };
+        }
+
+        const updates: string[] = [];
+
+        if (status) {
+          milestone.status = status;
+          updates.push(`status: ${status}`);
+        }
+
+        if (completion !== undefined) {
+          milestone.completion = completion;
+          updates.push(`completion: ${completion}%`);
+        }
+
+        roadmap.career_roadmap.last_updated = new Date().toISOString().split("T")[0];
+
+        await writeJsonFile("career/roadmap.json", roadmap, `Update milestone ${milestone_id}: ${updates.join(", ")}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully updated milestone "${milestone_id}" (${milestone.title}): ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update milestone: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // Tool: Update Learning Progress
+  registerTool(
+    "update_learning_progress",
+    {
+      title: "Update Learning Progress",
+      description: "Add or move items in the learning roadmap queue",
+      inputSchema: {
+        action: z.enum(["add", "move", "complete"]).describe("Action: add new item, move between queues, or mark complete"),
+        skill: z.string().describe("Skill name"),
+        from_queue: z.enum(["current_focus", "queue", "backlog", "on_hold"]).optional().describe("Source queue (for move action)"),
+        to_queue: z.enum(["current_focus", "queue", "backlog", "on_hold"]).optional().describe("Destination queue (for add/move action)"),
+        category: z.string().optional().describe("Skill category (for add action)"),
+        priority: z.enum(["low", "medium", "high"]).optional().describe("Priority (for add action)"),
+        why: z.string().optional().describe("Why learning this skill (for add action)"),
+      },
+    },
+    async ({ action, skill, from_queue, to_queue, category, priority, why }) => {
+      try {
+        const roadmap = await readJsonFile<Record<string, Array<Record<string, unknown>>>>("learning/roadmap.json");
+
+        if (action === "add" && to_queue) {
+          if (!roadmap[to_queue]) {
+            roadmap[to_queue] = [];
+          }
+
+          roadmap[to_queue].push({
+            skill,
+            category: category || "other",
+            priority: priority || "medium",
+            why: why || "",
+            date_added: new Date().toISOString().split("T")[0],
+          });
+
+          await writeJsonFile("learning/roadmap.json", roadmap, `Add to learning ${to_queue}: ${skill}`);
+
+          return {
+            content: [{ type: "text", text: `Successfully added "${skill}" to ${to_queue}` }],
+          };
+        }
+
+        if (action === "move" && from_queue && to_queue) {
+          const fromArray = roadmap[from_queue] || [];
+          const index = fromArray.findIndex(item => item.skill === skill);
+
+          if (index === -1) {
+            return {
+              content: [{ type: "text", text: `Skill "${skill}" not found in ${from_queue}` }],
+            };
+          }
+
+          const [item] = fromArray.splice(index, 1);
+          if (!roadmap[to_queue]) {
+            roadmap[to_queue] = [];
+          }
+          roadmap[to_queue].push(item);
+
+          await writeJsonFile("learning/roadmap.json", roadmap, `Move learning item: ${skill} from ${from_queue} to ${to_queue}`);
+
+          return {
+            content: [{ type: "text", text: `Successfully moved "${skill}" from ${from_queue} to ${to_queue}` }],
+          };
+        }
+
+        if (action === "complete" && from_queue) {
+          const fromArray = roadmap[from_queue] || [];
+          const index = fromArray.findIndex(item => item.skill === skill);
+
+          if (index === -1) {
+            return {
+              content: [{ type: "text", text: `Skill "${skill}" not found in ${from_queue}` }],
+            };
+          }
+
+          const [item] = fromArray.splice(index, 1);
+
+          // Add to completed.json
+          const completed = await readJsonFile<{ entries: Array<Record<string, unknown>> }>("learning/completed.json");
+          if (!completed.entries) {
+            completed.entries = [];
+          }
+          completed.entries.push({
+            ...item,
+            date_completed: new Date().toISOString().split("T")[0],
+          });
+
+          await writeFiles(
+            [
+              { path: "learning/roadmap.json", content: toJson(roadmap) },
+              { path: "learning/completed.json", content: toJson(completed) },
+            ],
+            `Complete learning item: ${skill}`
+          );
+
+          return {
+            content: [{ type: "text", text: `Successfully marked "${skill}" as completed` }],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: "Invalid action or missing parameters" }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update learning progress: ${error instanceof Error ? error.message : "Unknown error"}` }],
+        };
+      }
+    }
+  );
+
+  // ===== UPDATE LINKEDIN PROFILE =====
+  registerTool(
+    "update_linkedin_profile",
+    {
+      title: "Update LinkedIn Profile",
+      description: "Update LinkedIn profile data (personal, codaissance, or tampertantrum_labs account)",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum_labs"]).describe("Which LinkedIn account to update"),
+        headline: z.string().optional().describe("Profile headline (personal only)"),
+        bio: z.string().optional().describe("Profile bio/about section (personal only)"),
+        tagline: z.string().optional().describe("Company tagline (company pages only)"),
+        description: z.string().optional().describe("Company description (company pages only)"),
+        followers: z.number().optional().describe("Current follower count"),
+        connections: z.number().optional().describe("Current connections count (personal only)"),
+        profile_views_last_90_days: z.number().optional().describe("Profile views in last 90 days (personal only)"),
+        search_appearances_last_week: z.number().optional().describe("Search appearances last week (personal only)"),
+        post_impressions_last_7_days: z.number().optional().describe("Post impressions last 7 days"),
+        engagement_rate: z.number().optional().describe("Engagement rate (company pages only)"),
+        open_to_work: z.boolean().optional().describe("Open to work status (personal only)"),
+        creator_mode: z.boolean().optional().describe("Creator mode enabled (personal only)"),
+      },
+    },
+    async ({
+      account,
+      headline,
+      bio,
+      tagline,
+      description,
+      followers,
+      connections,
+      profile_views_last_90_days,
+      search_appearances_last_week,
+      post_impressions_last_7_days,
+      engagement_rate,
+      open_to_work,
+      creator_mode,
+    }) => {
+      try {
+        const profile = await readJsonFile<Record<string, Record<string, unknown>>>("linkedin/profile.json");
+        const accountData = profile[account];
+
+        if (!accountData) {
+          return { content: [{ type: "text", text: `Account '${account}' not found in profile.json` }] };
+        }
+
+        const updates: string[] = [];
+
+        if (account === "personal") {
+          if (headline !== undefined) { accountData.headline = headline; updates.push("headline"); }
+          if (bio !== undefined) { accountData.bio = bio; updates.push("bio"); }
+          if (connections !== undefined) { accountData.connections = connections; updates.push("connections"); }
+          if (profile_views_last_90_days !== undefined) { accountData.profile_views_last_90_days = profile_views_last_90_days; updates.push("profile_views_last_90_days"); }
+          if (search_appearances_last_week !== undefined) { accountData.search_appearances_last_week = search_appearances_last_week; updates.push("search_appearances_last_week"); }
+          if (open_to_work !== undefined) { accountData.open_to_work = open_to_work; updates.push("open_to_work"); }
+          if (creator_mode !== undefined) { accountData.creator_mode = creator_mode; updates.push("creator_mode"); }
+        } else {
+          if (tagline !== undefined) { accountData.tagline = tagline; updates.push("tagline"); }
+          if (description !== undefined) { accountData.description = description; updates.push("description"); }
+          if (engagement_rate !== undefined) { accountData.engagement_rate = engagement_rate; updates.push("engagement_rate"); }
+        }
+
+        if (followers !== undefined) { accountData.followers = followers; updates.push("followers"); }
+        if (post_impressions_last_7_days !== undefined) { accountData.post_impressions_last_7_days = post_impressions_last_7_days; updates.push("post_impressions"); }
+
+        accountData.last_updated = new Date().toISOString().split("T")[0];
+
+        await writeJsonFile("linkedin/profile.json", profile, `Update LinkedIn ${account}: ${updates.join(", ")}`);
+
+        return {
+          content: [{ type: "text", text: `Updated LinkedIn ${account} profile: ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update LinkedIn profile: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== SCAFFOLD PROJECT =====
+  registerTool(
+    "scaffold_project",
+    {
+      title: "Scaffold Project",
+      description: "Create folder structure for a new project in projects/specs/{project_key}/ with README.md template",
+      inputSchema: {
+        project_key: z.string().describe("Project key/identifier (lowercase, hyphenated)"),
+        project_name: z.string().describe("Human-readable project name"),
+        project_type: z.string().describe("Project type (e.g., 'SaaS Web Application', 'CLI Tool')"),
+        tagline: z.string().optional().describe("One-sentence tagline"),
+        include_style_guide: z.boolean().optional().default(false).describe("Include style-guide.md"),
+        include_architecture: z.boolean().optional().default(false).describe("Include architecture.md"),
+      },
+    },
+    async ({ project_key, project_name, project_type, tagline, include_style_guide, include_architecture }) => {
+      try {
+        const files: Array<{ path: string; content: string }> = [];
+        const specPath = `projects/specs/${project_key}`;
+        const today = new Date().toISOString().split("T")[0];
+
+        // Create README.md
+        const readmeContent = `# ${project_name}
+
+## Project Identity
+
+**Name**: ${project_name}
+**Type**: ${project_type}
+**Tagline**: ${tagline || "<!-- One sentence that captures the value -->"}
+
+---
+
+## The Problem
+
+**Problem Statement**:
+<!-- What specific pain exists? Who feels it? How often? Be concrete. -->
+
+**Current Solutions**:
+<!-- What do people do today? Why is it inadequate? -->
+
+**Cost of Inaction**:
+<!-- What happens if this problem isn't solved? -->
+
+---
+
+## The Solution
+
+**Solution Statement**:
+<!-- How does this project solve the problem? Be specific about the mechanism. -->
+
+**What This Is NOT**:
+<!-- Explicitly state what's out of scope. Helps prevent scope creep. -->
+
+---
+
+## Target Audience
+
+**Primary User**:
+<!-- Describe the ideal first user. Be specific: role, company size, technical level. -->
+
+**User Personas**:
+1.
+2.
+
+**Anti-Personas** (who is this NOT for):
+1.
+
+---
+
+## MVP Spec
+
+**MVP Goal**:
+<!-- What does the MVP prove? What question does it answer? -->
+
+**MVP Features** (3-5 max):
+1.
+2.
+3.
+
+**MVP Technologies**:
+-
+
+**MVP Success Criteria**:
+<!-- How do you know MVP worked? Be specific and measurable. -->
+
+---
+
+## Post-MVP Spec
+
+**Post-MVP Features**:
+1.
+2.
+3.
+
+**Post-MVP Technologies**:
+-
+
+---
+
+## Technical Architecture
+
+**Architecture Overview**:
+<!-- Brief description. Monolith? Microservices? Serverless? -->
+
+**Key Technical Decisions**:
+-
+
+**Security Considerations**:
+<!-- Auth, data protection, common vulnerabilities to address -->
+
+---
+
+## Success Criteria
+
+**Success Milestone**:
+<!-- Specific, measurable outcome that proves the project works. -->
+
+**Key Metrics**:
+1.
+2.
+3.
+
+---
+
+## Business Model
+
+**Monetization Strategy**:
+<!-- Open-source, Freemium, SaaS Subscription, One-time Purchase, etc. -->
+
+**Revenue Goal** (first 12 months):
+<!-- Realistic target. $0 is fine for open-source. -->
+
+---
+
+## Mission Statement
+
+**Mission**:
+<!-- Why does this project exist? What change does it create in the world? -->
+
+---
+
+_Created: ${today}_
+`;
+
+        files.push({ path: `${specPath}/README.md`, content: readmeContent });
+
+        if (include_style_guide) {
+          const styleGuideContent = `# ${project_name} - Style Guide
+
+## Brand Colors
+
+**Primary**:
+**Secondary**:
+**Accent**:
+**Background**:
+**Text**:
+
+---
+
+## Typography
+
+**Headings**:
+**Body**:
+**Code**:
+
+---
+
+## Voice & Tone
+
+**Voice Characteristics**:
+-
+
+**Writing Guidelines**:
+-
+
+---
+
+## UI Components
+
+<!-- Document component patterns, spacing, etc. -->
+
+---
+
+_Created: ${today}_
+`;
+          files.push({ path: `${specPath}/style-guide.md`, content: styleGuideContent });
+        }
+
+        if (include_architecture) {
+          const architectureContent = `# ${project_name} - Architecture
+
+## System Overview
+
+<!-- High-level architecture diagram or description -->
+
+---
+
+## Components
+
+### Frontend
+<!-- Frontend architecture details -->
+
+### Backend
+<!-- Backend architecture details -->
+
+### Database
+<!-- Database schema and design decisions -->
+
+---
+
+## Data Flow
+
+<!-- How data moves through the system -->
+
+---
+
+## External Integrations
+
+<!-- Third-party services, APIs, etc. -->
+
+---
+
+## Security Architecture
+
+<!-- Authentication, authorization, data protection -->
+
+---
+
+## Deployment
+
+<!-- Infrastructure, CI/CD, environments -->
+
+---
+
+_Created: ${today}_
+`;
+          files.push({ path: `${specPath}/architecture.md`, content: architectureContent });
+        }
+
+        // All scaffold files land in one commit
+        await writeFiles(files, `Scaffold project: ${project_name}`);
+
+        return {
+          content: [{ type: "text", text: `Created project scaffold at ${specPath}/\nFiles: ${files.map(file => file.path.slice(specPath.length + 1)).join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to scaffold project: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE GOAL PROGRESS =====
+  registerTool(
+    "update_goal_progress",
+    {
+      title: "Update Goal Progress",
+      description: "Update progress on a goal by ID",
+      inputSchema: {
+        goal_id: z.string().describe("Goal ID (e.g., 'saas-launch', 'income-300k')"),
+        year: goalYearParam,
+        status: z.enum(["not_started", "in_progress", "completed", "blocked"]).optional().describe("Goal status"),
+        current_metric: z.string().optional().describe("Current metric value"),
+        notes: z.string().optional().describe("Progress notes"),
+      },
+    },
+    async ({ goal_id, year = new Date().getFullYear(), status, current_metric, notes }) => {
+      try {
+        if (!(await fileExists(goalsPath(year)))) {
+          return await missingGoalYear(year);
+        }
+
+        const goals = await readJsonFile<{
+          year: number;
+          last_updated: string;
+          categories: Record<string, {
+            title: string;
+            goals: Array<{
+              id: string;
+              goal: string;
+              status: string;
+              target_date: string;
+              metrics: { target: string; current: string };
+              notes?: string;
+            }>;
+          }>;
+        }>(goalsPath(year));
+
+        let found = false;
+        let goalName = "";
+
+        for (const category of Object.values(goals.categories)) {
+          for (const goal of category.goals) {
+            if (goal.id === goal_id) {
+              found = true;
+              goalName = goal.goal;
+              if (status) goal.status = status;
+              if (current_metric) goal.metrics.current = current_metric;
+              if (notes) goal.notes = notes;
+              break;
+            }
+          }
+          if (found) break;
+        }
+
+        if (!found) {
+          return { content: [{ type: "text", text: `Goal with ID '${goal_id}' not found` }] };
+        }
+
+        goals.last_updated = new Date().toISOString().split("T")[0];
+        await writeJsonFile(goalsPath(year), goals, `Update goal progress: ${goal_id}`);
+
+        const updates = [];
+        if (status) updates.push(`status: ${status}`);
+        if (current_metric) updates.push(`current: ${current_metric}`);
+        if (notes) updates.push("notes updated");
+
+        return {
+          content: [{ type: "text", text: `Updated goal '${goalName}': ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update goal progress: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== ADD MASTERMIND MEMBER =====
+  registerTool(
+    "add_mastermind_member",
+    {
+      title: "Add Mastermind Member",
+      description: "Add a member to the mastermind alliance",
+      inputSchema: {
+        name: z.string().describe("Member name"),
+        description: z.string().describe("Member description including role and what they provide"),
+        list: z.enum(["current", "needed"]).default("current").describe("Add to current_members or needed_members"),
+      },
+    },
+    async ({ name, description, list }) => {
+      try {
+        const chiefAim = await readJsonFile<{
+          napoleon_hill_principles: {
+            master_mind_alliance: {
+              current_members: string[];
+              needed_members: string[];
+            };
+          };
+        }>("career/chief-aim.json");
+
+        const mastermind = chiefAim.napoleon_hill_principles.master_mind_alliance;
+        const memberEntry = `${name} - ${description}`;
+
+        if (list === "current") {
+          mastermind.current_members.push(memberEntry);
+        } else {
+          mastermind.needed_members.push(memberEntry);
+        }
+
+        await writeJsonFile("career/chief-aim.json", chiefAim, `Add mastermind member: ${name}`);
+
+        return {
+          content: [{ type: "text", text: `Added '${name}' to mastermind ${list}_members list` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to add mastermind member: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== LOG WEEKLY ACTION =====
+  registerTool(
+    "log_weekly_action",
+    {
+      title: "Log Weekly Action",
+      description: "Log a weekly action item for tracking consistent effort",
+      inputSchema: {
+        action: z.string().describe("Description of the action taken"),
+        category: z.enum(["business", "learning", "networking", "health", "family", "career"]).describe("Action category"),
+        principle: z.string().optional().describe("Napoleon Hill principle this relates to"),
+        impact: z.string().optional().describe("Impact or result of the action"),
+      },
+    },
+    async ({ action, category, principle, impact }) => {
+      try {
+        let weeklyActions: {
+          weeks: Array<{
+            week_start: string;
+            actions: Array<{
+              date: string;
+              action: string;
+              category: string;
+              principle?: string;
+              impact?: string;
+            }>;
+          }>;
+        };
+
+        try {
+          weeklyActions = await readJsonFile("career/weekly-actions.json");
+        } catch {
+          weeklyActions = { weeks: [] };
+        }
+
+        const today = new Date();
+        const weekStart = new Date(today);
+        weekStart.setDate(today.getDate() - today.getDay());
+        const weekStartStr = weekStart.toISOString().split("T")[0];
+
+        let currentWeek = weeklyActions.weeks.find(w => w.week_start === weekStartStr);
+        if (!currentWeek) {
+          currentWeek = { week_start: weekStartStr, actions: [] };
+          weeklyActions.weeks.unshift(currentWeek);
+        }
+
+        currentWeek.actions.push({
+          date: today.toISOString().split("T")[0],
+          action,
+          category,
+          principle: principle || undefined,
+          impact: impact || undefined,
+        });
+
+        await writeJsonFile("career/weekly-actions.json", weeklyActions, `Log weekly action: ${category}`);
+
+        return {
+          content: [{ type: "text", text: `Logged weekly action: "${action}" (${category})` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to log weekly action: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE CHIEF AIM =====
+  registerTool(
+    "update_chief_aim",
+    {
+      title: "Update Chief Aim",
+      description: "Update Napoleon Hill principle content or career vision",
+      inputSchema: {
+        section: z.enum(["definiteness_of_purpose", "applied_faith", "going_extra_mile", "career_vision_questions"]).describe("Section to update"),
+        field: z.string().describe("Field name to update"),
+        value: z.union([z.string(), z.array(z.string())]).describe("New value (string or array)"),
+      },
+    },
+    async ({ section, field, value }) => {
+      try {
+        const chiefAim = await readJsonFile<Record<string, unknown>>("career/chief-aim.json");
+
+        if (section === "career_vision_questions") {
+          const careerVision = chiefAim.career_vision_questions as Record<string, unknown>;
+          if (careerVision) {
+            careerVision[field] = value;
+          }
+        } else {
+          const principles = chiefAim.napoleon_hill_principles as Record<string, Record<string, unknown>>;
+          if (principles && principles[section]) {
+            principles[section][field] = value;
+            if (section === "definiteness_of_purpose") {
+              principles[section].last_reviewed = new Date().toISOString().split("T")[0];
+            }
+          }
+        }
+
+        await writeJsonFile("career/chief-aim.json", chiefAim, `Update chief aim: ${section}.${field}`);
+
+        return {
+          content: [{ type: "text", text: `Updated chief-aim.json: ${section}.${field}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update chief aim: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE APPLICATION STATUS =====
+  registerTool(
+    "update_application_status",
+    {
+      title: "Update Application Status",
+      description: "Update the status of an existing job application",
+      inputSchema: {
+        company: z.string().describe("Company name to find the application"),
+        status: z.enum(["applied", "screening", "interviewing", "offer", "rejected", "withdrawn", "ghosted"]).describe("New status"),
+        notes: z.string().optional().describe("Additional notes"),
+        follow_up_date: z.string().optional().describe("Next follow-up date (YYYY-MM-DD)"),
+        outcome: z.string().optional().describe("Final outcome"),
+      },
+    },
+    async ({ company, status, notes, follow_up_date, outcome }) => {
+      try {
+        const applications = await readJsonFile<{
+          applications: Array<{
+            company: string;
+            role: string;
+            status: string;
+            notes: string;
+            follow_up_date: string | null;
+            outcome: string | null;
+            last_updated: string;
+          }>;
+        }>("job-applications/applications.json");
+
+        const app = applications.applications.find(
+          a => a.company.toLowerCase().includes(company.toLowerCase())
+        );
+
+        if (!app) {
+          return { content: [{ type: "text", text: `No application found for company matching '${company}'` }] };
+        }
+
+        const previousStatus = app.status;
+        app.status = status;
+        app.last_updated = new Date().toISOString().split("T")[0];
+
+        if (notes) {
+          app.notes = app.notes ? `${app.notes}\n\n[${app.last_updated}] ${notes}` : notes;
+        }
+        if (follow_up_date) app.follow_up_date = follow_up_date;
+        if (outcome) app.outcome = outcome;
+
+        await writeJsonFile("job-applications/applications.json", applications, `Update application: ${app.company} -> ${status}`);
+
+        return {
+          content: [{ type: "text", text: `Updated ${app.company} (${app.role}): ${previousStatus} → ${status}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update application status: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE PROJECT (FULL) =====
+  registerTool(
+    "update_project",
+    {
+      title: "Update Project",
+      description: "Update any field of an existing project (name, description, technologies, problem, solution, target_audience, mission_statement, tagline, due_date, repo_url, monetization_strategy, blocked_by, etc.)",
+      inputSchema: {
+        project_id: z.string().describe("Project identifier (slug/key from the JSON)"),
+        status_file: z.enum(["active", "planned", "completed"]).describe("Which status file the project is in"),
+        name: z.string().optional().describe("Update project name"),
+        description: z.string().optional().describe("Update project description"),
+        type: z.string().optional().describe("Update project type"),
+        technologies: z.array(z.string()).optional().describe("Update technologies array"),
+        problem: z.string().optional().describe("Update problem statement"),
+        solution: z.string().optional().describe("Update solution statement"),
+        target_audience: z.array(z.string()).optional().describe("Update target audience array"),
+        mission_statement: z.string().optional().describe("Update mission statement"),
+        tagline: z.string().optional().describe("Update tagline"),
+        due_date: z.string().optional().describe("Update due date (YYYY-MM-DD)"),
+        repo_url: z.string().optional().describe("Update repository URL"),
+        monetization_strategy: z.string().optional().describe("Update monetization strategy"),
+        blocked_by: z.string().optional().describe("Update blocked_by dependency"),
+        success_milestone: z.string().optional().describe("Update success milestone"),
+        priority: z.number().optional().describe("Update priority (1-10)"),
+        completion_percentage: z.number().min(0).max(100).optional().describe("Update completion percentage"),
+        spec_folder: z.string().optional().describe("Update spec folder path"),
+        stale: z.boolean().optional().describe("Mark project as stale"),
+        paused_at: z.string().optional().describe("Set paused date (YYYY-MM-DD)"),
+        private: z.boolean().optional().describe("Mark project as private"),
+      },
+    },
+    async ({ project_id, status_file, ...updates }) => {
+      try {
+        const filePath = `projects/${status_file}.json`;
+        const projects = await readJsonFile<Record<string, Record<string, unknown>>>(filePath);
+
+        if (!projects[project_id]) {
+          return { content: [{ type: "text", text: `Project "${project_id}" not found in ${status_file}.json` }] };
+        }
+
+        const project = projects[project_id];
+        const updatedFields: string[] = [];
+
+        // Apply all provided updates
+        for (const [key, value] of Object.entries(updates)) {
+          if (value !== undefined) {
+            project[key] = value;
+            updatedFields.push(key);
+          }
+        }
+
+        if (updatedFields.length === 0) {
+          return { content: [{ type: "text", text: "No updates provided" }] };
+        }
+
+        projects[project_id] = project;
+        await writeJsonFile(filePath, projects, `Update project ${project_id}: ${updatedFields.join(", ")}`);
+
+        return {
+          content: [{ type: "text", text: `Updated "${project_id}": ${updatedFields.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update project: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE IDEA =====
+  registerTool(
+    "update_idea",
+    {
+      title: "Update Idea",
+      description: "Update an existing idea's status, validation notes, effort, potential value, or other fields",
+      inputSchema: {
+        source: z.enum(["personal", "codaissance", "tampertantrum-labs"]).describe("Which idea bank"),
+        idea_name: z.string().describe("Name of the idea to update"),
+        status: z.enum(["raw", "validating", "validated", "rejected", "moved_to_projects"]).optional().describe("Update idea status"),
+        description: z.string().optional().describe("Update description"),
+        problem: z.string().optional().describe("Update problem statement"),
+        solution: z.string().optional().describe("Update solution statement"),
+        target_audience: z.string().optional().describe("Update target audience"),
+        effort: z.enum(["low", "medium", "high"]).optional().describe("Update effort estimate"),
+        potential_value: z.enum(["low", "medium", "high"]).optional().describe("Update potential value"),
+        validation_notes: z.string().optional().describe("Add validation notes"),
+        rejection_reason: z.string().optional().describe("Add rejection reason if rejected"),
+      },
+    },
+    async ({ source, idea_name, status, description, problem, solution, target_audience, effort, potential_value, validation_notes, rejection_reason }) => {
+      try {
+        const filePath = source === "personal"
+          ? "ideas/personal/ideas.json"
+          : `ideas/business/${source}/ideas.json`;
+
+        const data = await readJsonFile<{ ideas: Array<Record<string, unknown>> }>(filePath);
+
+        if (!data.ideas) {
+          return { content: [{ type: "text", text: "No ideas found in file" }] };
+        }
+
+        const idea = data.ideas.find(i =>
+          (i.name as string)?.toLowerCase() === idea_name.toLowerCase()
+        );
+
+        if (!idea) {
+          return { content: [{ type: "text", text: `Idea "${idea_name}" not found in ${source} ideas` }] };
+        }
+
+        const updates: string[] = [];
+        const today = new Date().toISOString().split("T")[0];
+
+        if (status) { idea.status = status; updates.push(`status: ${status}`); }
+        if (description) { idea.description = description; updates.push("description"); }
+        if (problem) { idea.problem = problem; updates.push("problem"); }
+        if (solution) { idea.solution = solution; updates.push("solution"); }
+        if (target_audience) { idea.target_audience = target_audience; updates.push("target_audience"); }
+        if (effort) { idea.effort = effort; updates.push(`effort: ${effort}`); }
+        if (potential_value) { idea.potential_value = potential_value; updates.push(`potential_value: ${potential_value}`); }
+        if (validation_notes) { idea.validation_notes = validation_notes; updates.push("validation_notes"); }
+        if (rejection_reason) { idea.rejection_reason = rejection_reason; updates.push("rejection_reason"); }
+
+        idea.date_updated = today;
+
+        await writeJsonFile(filePath, data, `Update idea: ${idea_name}`);
+
+        return {
+          content: [{ type: "text", text: `Updated idea "${idea_name}": ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update idea: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE GOAL (FULL) =====
+  registerTool(
+    "update_goal",
+    {
+      title: "Update Goal",
+      description: "Update any field of an existing goal (status, metrics, target_date, quarterly objectives, notes, etc.)",
+      inputSchema: {
+        goal_id: z.string().describe("Goal ID (e.g., 'saas-launch', 'income-300k')"),
+        year: goalYearParam,
+        status: z.enum(["not_started", "in_progress", "completed", "blocked"]).optional().describe("Update goal status"),
+        goal_text: z.string().optional().describe("Update goal description text"),
+        target_date: z.string().optional().describe("Update target date (YYYY-MM-DD)"),
+        target_metric: z.string().optional().describe("Update target metric value"),
+        current_metric: z.string().optional().describe("Update current metric value"),
+        notes: z.string().optional().describe("Update notes"),
+        quarterly_objectives: z.array(z.string()).optional().describe("Update quarterly objectives array"),
+      },
+    },
+    async ({ goal_id, year = new Date().getFullYear(), status, goal_text, target_date, target_metric, current_metric, notes, quarterly_objectives }) => {
+      try {
+        if (!(await fileExists(goalsPath(year)))) {
+          return await missingGoalYear(year);
+        }
+
+        const goals = await readJsonFile<{
+          year: number;
+          last_updated: string;
+          categories: Record<string, {
+            title: string;
+            goals: Array<{
+              id: string;
+              goal: string;
+              status: string;
+              target_date: string;
+              metrics: { target: string; current: string };
+              notes?: string;
+              quarterly_objectives?: string[];
+            }>;
+          }>;
+        }>(goalsPath(year));
+
+        let found = false;
+        let goalName = "";
+
+        for (const category of Object.values(goals.categories)) {
+          for (const goal of category.goals) {
+            if (goal.id === goal_id) {
+              found = true;
+              goalName = goal.goal;
+              if (status) goal.status = status;
+              if (goal_text) goal.goal = goal_text;
+              if (target_date) goal.target_date = target_date;
+              if (target_metric) goal.metrics.target = target_metric;
+              if (current_metric) goal.metrics.current = current_metric;
+              if (notes) goal.notes = notes;
+              if (quarterly_objectives) goal.quarterly_objectives = quarterly_objectives;
+              break;
+            }
+          }
+          if (found) break;
+        }
+
+        if (!found) {
+          return { content: [{ type: "text", text: `Goal with ID '${goal_id}' not found` }] };
+        }
+
+        goals.last_updated = new Date().toISOString().split("T")[0];
+        await writeJsonFile(goalsPath(year), goals, `Update goal: ${goal_id}`);
+
+        const updates = [];
+        if (status) updates.push(`status: ${status}`);
+        if (goal_text) updates.push("goal text");
+        if (target_date) updates.push(`target_date: ${target_date}`);
+        if (target_metric) updates.push(`target: ${target_metric}`);
+        if (current_metric) updates.push(`current: ${current_metric}`);
+        if (notes) updates.push("notes");
+        if (quarterly_objectives) updates.push("quarterly_objectives");
+
+        return {
+          content: [{ type: "text", text: `Updated goal '${goalName}': ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update goal: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== START NEW GOAL YEAR =====
+  registerTool(
+    "start_new_goal_year",
+    {
+      title: "Start New Goal Year",
+      description: "Create the goals file for a new year from the previous one: unfinished goals carry over, and completed ones are archived as completed_<year>_goals",
+      inputSchema: {
+        year: z.number().int().min(1000).max(9999).optional().describe("Year to start (defaults to the year after the latest goals file, or the current year if there is none)"),
+      },
+    },
+    async ({ year }) => {
+      try {
+        const years = await listGoalYears(storage);
+        const latest = years[years.length - 1];
+        const newYear = year ?? (latest !== undefined ? latest + 1 : new Date().getFullYear());
+
+        if (years.includes(newYear) || await fileExists(goalsPath(newYear))) {
+          return { content: [{ type: "text", text: `Goals for ${newYear} already exist at ${goalsPath(newYear)}` }] };
+        }
+
+        const today = new Date().toISOString().split("T")[0];
+        const previousYear = years.filter(existing => existing < newYear).pop();
+        const goals: GoalsData = { schema_version: currentSchemaVersion(goalsPath(newYear)), year: newYear, last_updated: today, categories: {} };
+        let carried = 0;
+        let archived = 0;
+
+        if (previousYear !== undefined) {
+          const previous = await readJsonFile<GoalsData>(goalsPath(previousYear));
+          const completed: string[] = [];
+
+          // Categories are kept even when empty so the new year starts with the same structure
+          for (const [key, category] of Object.entries(previous.categories)) {
+            const unfinished = category.goals.filter(goal => goal.status !== "completed");
+            completed.push(...category.goals.filter(goal => goal.status === "completed").map(goal => goal.goal));
+            goals.categories[key] = {
+              ...category,
+              goals: unfinished.map(goal => ({ ...goal, carried_over_from: previousYear })),
+            };
+            carried += unfinished.length;
+          }
+
+          goals[`completed_${previousYear}_goals`] = completed;
+          archived = completed.length;
+        }
+
+        await writeJsonFile(
+          goalsPath(newYear),
+          goals,
+          previousYear !== undefined
+            ? `Start ${newYear} goals: carry over ${carried} from ${previousYear}, archive ${archived} completed`
+            : `Start ${newYear} goals`
+        );
+
+        return {
+          content: [{
+            type: "text",
+            text: previousYear !== undefined
+              ? `Started ${goalsPath(newYear)}: carried over ${carried} unfinished goal(s) from ${previousYear} and archived ${archived} completed goal(s) as completed_${previousYear}_goals. ${goalsPath(previousYear)} is left as it was.`
+              : `Started ${goalsPath(newYear)} with no goals (no earlier goals file found)`,
+          }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to start new goal year: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE EXPERIENCE =====
+  registerTool(
+    "update_experience",
+    {
+      title: "Update Experience",
+      description: "Update an existing work experience entry (end_date, responsibilities, technologies, salary, performance metrics, etc.)",
+      inputSchema: {
+        company: z.string().describe("Company name to find and update"),
+        role: z.string().optional().describe("Update role/title"),
+        end_date: z.string().optional().describe("Update end date (YYYY-MM-DD or 'Present')"),
+        location: z.string().optional().describe("Update location"),
+        job_type: z.enum(["remote", "hybrid", "onsite"]).optional().describe("Update job type"),
+        responsibilities: z.array(z.string()).optional().describe("Update responsibilities array"),
+        technologies: z.array(z.string()).optional().describe("Update technologies array"),
+        salary: z.string().optional().describe("Update salary"),
+        performance_metrics: z.array(z.string()).optional().describe("Update performance metrics"),
+        notes: z.string().optional().describe("Update notes"),
+      },
+    },
+    async ({ company, role, end_date, location, job_type, responsibilities, technologies, salary, performance_metrics, notes }) => {
+      try {
+        const experience = await readJsonFile<Record<string, Record<string, unknown>>>("profile/experience.json");
+
+        // Find company (case-insensitive partial match)
+        const companyKey = dataEntries(experience).map(([key]) => key).find(
+          key => key.toLowerCase().includes(company.toLowerCase())
+        );
+
+        if (!companyKey) {
+          return { content: [{ type: "text", text: `Experience at "${company}" not found` }] };
+        }
+
+        const exp = experience[companyKey];
+        const updates: string[] = [];
+
+        if (role) { exp.role = role; updates.push(`role: ${role}`); }
+        if (end_date) { exp.end_date = end_date; updates.push(`end_date: ${end_date}`); }
+        if (location) { exp.location = location; updates.push("location"); }
+        if (job_type) { exp.job_type = job_type; updates.push(`job_type: ${job_type}`); }
+        if (responsibilities) { exp.responsibilities = responsibilities; updates.push("responsibilities"); }
+        if (technologies) { exp.technologies = technologies; updates.push("technologies"); }
+        if (salary) { exp.salary = salary; updates.push("salary"); }
+        if (performance_metrics) { exp.performance_metrics = performance_metrics; updates.push("performance_metrics"); }
+        if (notes) { exp.notes = notes; updates.push("notes"); }
+
+        await writeJsonFile("profile/experience.json", experience, `Update experience: ${companyKey}`);
+
+        return {
+          content: [{ type: "text", text: `Updated experience at "${companyKey}": ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update experience: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== DELETE ITEM =====
+  registerTool(
+    "delete_item",
+    {
+      title: "Delete Item",
+      description: "Delete an item from projects, ideas, applications, or interviews",
+      inputSchema: {
+        item_type: z.enum(["project", "idea", "application", "interview"]).describe("Type of item to delete"),
+        identifier: z.string().describe("Item identifier (project_id, idea name, company name, or interview ID)"),
+        status_file: z.enum(["active", "planned", "completed"]).optional().describe("For projects: which status file"),
+        idea_source: z.enum(["personal", "codaissance", "tampertantrum-labs"]).optional().describe("For ideas: which idea bank"),
+      },
+    },
+    async ({ item_type, identifier, status_file, idea_source }) => {
+      try {
+        if (item_type === "project") {
+          if (!status_file) {
+            return { content: [{ type: "text", text: "status_file required for deleting projects" }] };
+          }
+          const filePath = `projects/${status_file}.json`;
+          const projects = await readJsonFile<Record<string, unknown>>(filePath);
+
+          if (!projects[identifier]) {
+            return { content: [{ type: "text", text: `Project "${identifier}" not found in ${status_file}.json` }] };
+          }
+
+          delete projects[identifier];
+          await writeJsonFile(filePath, projects, `Delete project: ${identifier}`);
+          return { content: [{ type: "text", text: `Deleted project "${identifier}" from ${status_file}.json` }] };
+        }
+
+        if (item_type === "idea") {
+          if (!idea_source) {
+            return { content: [{ type: "text", text: "idea_source required for deleting ideas" }] };
+          }
+          const filePath = idea_source === "personal"
+            ? "ideas/personal/ideas.json"
+            : `ideas/business/${idea_source}/ideas.json`;
+
+          const data = await readJsonFile<{ ideas: Array<Record<string, unknown>> }>(filePath);
+          const initialLength = data.ideas.length;
+          data.ideas = data.ideas.filter(i =>
+            (i.name as string)?.toLowerCase() !== identifier.toLowerCase()
+          );
+
+          if (data.ideas.length === initialLength) {
+            return { content: [{ type: "text", text: `Idea "${identifier}" not found` }] };
+          }
+
+          await writeJsonFile(filePath, data, `Delete idea: ${identifier}`);
+          return { content: [{ type: "text", text: `Deleted idea "${identifier}" from ${idea_source} ideas` }] };
+        }
+
+        if (item_type === "application") {
+          const data = await readJsonFile<{ applications: Array<Record<string, unknown>> }>("job-applications/applications.json");
+          const initialLength = data.applications.length;
+          data.applications = data.applications.filter(a =>
+            !(a.company as string)?.toLowerCase().includes(identifier.toLowerCase())
+          );
+
+          if (data.applications.length === initialLength) {
+            return { content: [{ type: "text", text: `Application for "${identifier}" not found` }] };
+          }
+
+          await writeJsonFile("job-applications/applications.json", data, `Delete application: ${identifier}`);
+          return { content: [{ type: "text", text: `Deleted application for "${identifier}"` }] };
+        }
+
+        if (item_type === "interview") {
+          const data = await readJsonFile<{ interviews: Array<Record<string, unknown>> }>("job-applications/interviews.json");
+          const initialLength = data.interviews.length;
+          data.interviews = data.interviews.filter(i =>
+            i.id !== identifier &&
+            !(i.company as string)?.toLowerCase().includes(identifier.toLowerCase())
+          );
+
+          if (data.interviews.length === initialLength) {
+            return { content: [{ type: "text", text: `Interview "${identifier}" not found` }] };
+          }
+
+          await writeJsonFile("job-applications/interviews.json", data, `Delete interview: ${identifier}`);
+          return { content: [{ type: "text", text: `Deleted interview "${identifier}"` }] };
+        }
+
+        return { content: [{ type: "text", text: "Invalid item type" }] };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to delete item: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE LEARNING ITEM =====
+  registerTool(
+    "update_learning_item",
+    {
+      title: "Update Learning Item",
+      description: "Update a learning roadmap item's details (priority, why, resources, notes, category)",
+      inputSchema: {
+        skill: z.string().describe("Skill name to update"),
+        queue: z.enum(["current_focus", "queue", "backlog", "on_hold"]).describe("Which queue the skill is in"),
+        priority: z.enum(["low", "medium", "high"]).optional().describe("Update priority"),
+        why: z.string().optional().describe("Update reason for learning"),
+        category: z.string().optional().describe("Update category"),
+        resources: z.array(z.string()).optional().describe("Update resources array"),
+        notes: z.string().optional().describe("Update notes"),
+        target_date: z.string().optional().describe("Set target completion date"),
+      },
+    },
+    async ({ skill, queue, priority, why, category, resources, notes, target_date }) => {
+      try {
+        const roadmap = await readJsonFile<Record<string, Array<Record<string, unknown>>>>("learning/roadmap.json");
+
+        const queueArray = roadmap[queue] || [];
+        const item = queueArray.find(i => (i.skill as string)?.toLowerCase() === skill.toLowerCase());
+
+        if (!item) {
+          return { content: [{ type: "text", text: `Skill "${skill}" not found in ${queue}` }] };
+        }
+
+        const updates: string[] = [];
+
+        if (priority) { item.priority = priority; updates.push(`priority: ${priority}`); }
+        if (why) { item.why = why; updates.push("why"); }
+        if (category) { item.category = category; updates.push(`category: ${category}`); }
+        if (resources) { item.resources = resources; updates.push("resources"); }
+        if (notes) { item.notes = notes; updates.push("notes"); }
+        if (target_date) { item.target_date = target_date; updates.push(`target_date: ${target_date}`); }
+
+        item.date_updated = new Date().toISOString().split("T")[0];
+
+        await writeJsonFile("learning/roadmap.json", roadmap, `Update learning item: ${skill}`);
+
+        return {
+          content: [{ type: "text", text: `Updated "${skill}" in ${queue}: ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update learning item: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE CONTENT IDEA =====
+  registerTool(
+    "update_content_idea",
+    {
+      title: "Update Content Idea",
+      description: "Update a LinkedIn content idea's status, performance metrics, or other fields",
+      inputSchema: {
+        account: z.enum(["personal", "codaissance", "tampertantrum"]).describe("Which account's content bank"),
+        idea_title: z.string().describe("Title/topic of the content idea to update"),
+        status: z.enum(["idea", "drafting", "scheduled", "published", "archived"]).optional().describe("Update status"),
+        published_date: z.string().optional().describe("Set published date (YYYY-MM-DD)"),
+        published_url: z.string().optional().describe("Set URL of published post"),
+        impressions: z.number().optional().describe("Update impressions count"),
+        engagement: z.number().optional().describe("Update engagement count"),
+        notes: z.string().optional().describe("Update notes"),
+      },
+    },
+    async ({ account, idea_title, status, published_date, published_url, impressions, engagement, notes }) => {
+      try {
+        const contentIdeas = await readJsonFile<{
+          content_bank: Record<string, Array<Record<string, unknown>>>;
+        }>("linkedin/content-ideas.json");
+
+        const bank = contentIdeas.content_bank[account];
+        if (!bank) {
+          return { content: [{ type: "text", text: `Content bank for ${account} not found` }] };
+        }
+
+        const idea = bank.find(i =>
+          (i.title as string)?.toLowerCase().includes(idea_title.toLowerCase()) ||
+          (i.topic as string)?.toLowerCase().includes(idea_title.toLowerCase())
+        );
+
+        if (!idea) {
+          return { content: [{ type: "text", text: `Content idea "${idea_title}" not found in ${account} bank` }] };
+        }
+
+        const updates: string[] = [];
+
+        if (status) { idea.status = status; updates.push(`status: ${status}`); }
+        if (published_date) { idea.published_date = published_date; updates.push(`published_date: ${published_date}`); }
+        if (published_url) { idea.published_url = published_url; updates.push("published_url"); }
+        if (impressions !== undefined) { idea.impressions = impressions; updates.push(`impressions: ${impressions}`); }
+        if (engagement !== undefined) { idea.engagement = engagement; updates.push(`engagement: ${engagement}`); }
+        if (notes) { idea.notes = notes; updates.push("notes"); }
+
+        await writeJsonFile("linkedin/content-ideas.json", contentIdeas, `Update content idea: ${idea_title}`);
+
+        return {
+          content: [{ type: "text", text: `Updated content idea "${idea_title}": ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update content idea: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE JOB OPPORTUNITY =====
+  registerTool(
+    "update_job_opportunity",
+    {
+      title: "Update Job Opportunity",
+      description: "Update a job opportunity from the monitor (mark as applied, passed, add notes)",
+      inputSchema: {
+        company: z.string().describe("Company name to find the opportunity"),
+        status: z.enum(["new", "reviewing", "applied", "passed", "rejected"]).optional().describe("Update opportunity status"),
+        notes: z.string().optional().describe("Add notes about the opportunity"),
+        applied_date: z.string().optional().describe("Set applied date if applied"),
+        reason: z.string().optional().describe("Reason for passing or rejection"),
+      },
+    },
+    async ({ company, status, notes, applied_date, reason }) => {
+      try {
+        const opportunities = await readJsonFile<{
+          top_jobs: Array<Record<string, unknown>>;
+          last_updated: string;
+        }>("job-applications/opportunities/latest.json");
+
+        const job = opportunities.top_jobs.find(j =>
+          (j.company as string)?.toLowerCase().includes(company.toLowerCase())
+        );
+
+        if (!job) {
+          return { content: [{ type: "text", text: `Opportunity at "${company}" not found` }] };
+        }
+
+        const updates: string[] = [];
+
+        if (status) { job.status = status; updates.push(`status: ${status}`); }
+        if (notes) { job.notes = notes; updates.push("notes"); }
+        if (applied_date) { job.applied_date = applied_date; updates.push(`applied_date: ${applied_date}`); }
+        if (reason) { job.reason = reason; updates.push("reason"); }
+
+        job.last_updated = new Date().toISOString().split("T")[0];
+
+        await writeJsonFile("job-applications/opportunities/latest.json", opportunities, `Update opportunity: ${company}`);
+
+        return {
+          content: [{ type: "text", text: `Updated opportunity at "${company}": ${updates.join(", ")}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update job opportunity: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE BUSINESS STRATEGY =====
+  registerTool(
+    "update_business_strategy",
+    {
+      title: "Update Business Strategy",
+      description: "Update business strategy, personas, or marketing data for Codaissance or TamperTantrum Labs",
+      inputSchema: {
+        business: z.enum(["codaissance", "tampertantrum-labs"]).describe("Which business to update"),
+        file_type: z.enum(["strategy", "personas", "marketing", "brand", "design-system"]).describe("Which file to update"),
+        field_path: z.string().describe("Dot-notation path to the field to update (e.g., 'mission', 'positioning.tagline', 'target_personas[0].name')"),
+        value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).describe("New value for the field"),
+      },
+    },
+    async ({ business, file_type, field_path, value }) => {
+      try {
+        const filePath = `business/${business}/${file_type}.json`;
+        const data = await readJsonFile<Record<string, unknown>>(filePath);
+
+        // Navigate to the field using dot notation
+        const pathParts = field_path.split(".");
+        let current: Record<string, unknown> = data;
+
+        for (let i = 0; i < pathParts.length - 1; i++) {
+          const part = pathParts[i];
+          // Handle array notation like "personas[0]"
+          const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/);
+          if (arrayMatch) {
+            const [, arrayName, indexStr] = arrayMatch;
+            const arr = current[arrayName] as unknown[];
+            current = arr[parseInt(indexStr)] as Record<string, unknown>;
+          } else {
+            if (!current[part]) {
+              current[part] = {};
+            }
+            current = current[part] as Record<string, unknown>;
+          }
+        }
+
+        const lastPart = pathParts[pathParts.length - 1];
+        // Handle array notation for final part
+        const arrayMatch = lastPart.match(/^(\w+)\[(\d+)\]$/);
+        if (arrayMatch) {
+          const [, arrayName, indexStr] = arrayMatch;
+          (current[arrayName] as unknown[])[parseInt(indexStr)] = value;
+        } else {
+          current[lastPart] = value;
+        }
+
+        await writeJsonFile(filePath, data, `Update ${business} ${file_type}: ${field_path}`);
+
+        return {
+          content: [{ type: "text", text: `Updated ${business}/${file_type}.json: ${field_path} = ${JSON.stringify(value)}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update business strategy: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE README =====
+  registerTool(
+    "update_readme",
+    {
+      title: "Update README",
+      description: "Update a README file (GitHub profile README, project README, or any markdown file)",
+      inputSchema: {
+        file_path: z.string().describe("Path to the README file (e.g., 'github/README.md', 'projects/specs/vibiom/README.md')"),
+        content: z.string().describe("Full new content for the README file"),
+      },
+    },
+    async ({ file_path, content }) => {
+      try {
+        // Validate it's a markdown file
+        if (!file_path.endsWith(".md")) {
+          return { content: [{ type: "text", text: "Only markdown (.md) files can be updated with this tool" }] };
+        }
+
+        await writeFile(file_path, content, `Update README: ${file_path}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully updated ${file_path}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update README: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== UPDATE PROJECT SPEC =====
+  registerTool(
+    "update_project_spec",
+    {
+      title: "Update Project Spec",
+      description: "Update or create a project specification file in projects/specs/{project_key}/",
+      inputSchema: {
+        project_key: z.string().describe("Project key/identifier (e.g., 'vibiom', 'chatbot-template')"),
+        file_name: z.string().describe("File name to update (e.g., 'README.md', 'MVP_SPEC.md', 'architecture.md', 'style-guide.md')"),
+        content: z.string().describe("Full content for the spec file"),
+      },
+    },
+    async ({ project_key, file_name, content }) => {
+      try {
+        // Validate file extension
+        if (!file_name.endsWith(".md") && !file_name.endsWith(".json")) {
+          return { content: [{ type: "text", text: "Only markdown (.md) and JSON (.json) files are allowed in project specs" }] };
+        }
+
+        const filePath = `projects/specs/${project_key}/${file_name}`;
+        await writeFile(filePath, content, `Update project spec: ${project_key}/${file_name}`);
+
+        return {
+          content: [{ type: "text", text: `Successfully updated ${filePath}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update project spec: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ============================================
+  // JOURNAL TOOLS
+  // ============================================
+
+  // ===== ADD JOURNAL ENTRY =====
+  registerTool(
+    "add_journal_entry",
+    {
+      title: "Add Journal Entry",
+      description: "Create a new daily journal entry with structured metadata",
+      inputSchema: {
+        date: z.string().describe("Date for the entry (YYYY-MM-DD)"),
+        content: z.string().describe("Markdown content for the entry body"),
+        mood: z.string().optional().describe("Descriptive mood (e.g., 'productive', 'tired', 'energized')"),
+        energy_level: z.number().min(1).max(10).optional().describe("Energy level 1-10"),
+        tags: z.array(z.string()).optional().describe("Array of tags for categorization"),
+        wins: z.array(z.string()).optional().describe("Array of wins/accomplishments"),
+        struggles: z.array(z.string()).optional().describe("Array of struggles/challenges"),
+        kids_moments: z.array(z.string()).optional().describe("Array of memorable kid moments"),
+        napoleon_hill_principle: z.string().optional().describe("Which Napoleon Hill principle applied today"),
+      },
+    },
+    async ({ date, content, mood, energy_level, tags, wins, struggles, kids_moments, napoleon_hill_principle }) => {
+      try {
+        // Parse date
+        const [year, month, day] = date.split("-").map(Number);
+        const dateObj = new Date(year, month - 1, day);
+        const monthName = getMonthName(month);
+        const dayOfWeek = getDayOfWeek(dateObj);
+        const monthFolder = `${month.toString().padStart(2, "0")}-${monthName}`;
+
+        // Build file path
+        const filePath = `journal/entries/${year}/${monthFolder}/${date}.md`;
+
+        // Check if entry already exists
+        if (await fileExists(filePath)) {
+          return { content: [{ type: "text", text: `Journal entry for ${date} already exists. Use a different date or update the existing entry.` }] };
+        }
+
+        // Build YAML frontmatter
+        let frontmatter = `---\ndate: ${date}\nday_of_week: ${dayOfWeek}\n`;
+        if (mood) frontmatter += `mood: ${mood}\n`;
+        if (energy_level) frontmatter += `energy_level: ${energy_level}\n`;
+        if (tags && tags.length > 0) frontmatter += `tags: [${tags.join(", ")}]\n`;
+        if (wins && wins.length > 0) {
+          frontmatter += `wins:\n`;
+          for (const win of wins) frontmatter += `  - ${win}\n`;
+        }
+        if (struggles && struggles.length > 0) {
+          frontmatter += `struggles:\n`;
+          for (const struggle of struggles) frontmatter += `  - ${struggle}\n`;
+        }
+        if (kids_moments && kids_moments.length > 0) {
+          frontmatter += `kids_moments:\n`;
+          for (const moment of kids_moments) frontmatter += `  - ${moment}\n`;
+        }
+        if (napoleon_hill_principle) frontmatter += `napoleon_hill_principle: ${napoleon_hill_principle}\n`;
+        frontmatter += `---\n\n`;
+
+        const fullContent = frontmatter + content;
+
+        await writeFile(filePath, fullContent, `Add journal entry: ${date}`);
+
+        return {
+          content: [{ type: "text", text: `Journal entry created: ${filePath}` }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to add journal entry: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== GET TODAY'S JOURNAL =====
+  registerTool(
+    "get_todays_journal",
+    {
+      title: "Get Today's Journal",
+      description: "Check if a journal entry exists for today (or a specific date) and return its content",
+      inputSchema: {
+        date: z.string().optional().describe("Date to check (YYYY-MM-DD). Defaults to today."),
+      },
+    },
+    async ({ date }) => {
+      try {
+        // Use provided date or today
+        const targetDate = date || new Date().toISOString().split("T")[0];
+        const [year, month] = targetDate.split("-").map(Number);
+        const monthName = getMonthName(month);
+        const monthFolder = `${month.toString().padStart(2, "0")}-${monthName}`;
+
+        const filePath = `journal/entries/${year}/${monthFolder}/${targetDate}.md`;
+
+        try {
+          const content = await readMarkdownFile(filePath);
+          const { metadata, body } = parseJournalEntry(content);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify({
+              exists: true,
+              path: filePath,
+              content: content,
+              metadata: metadata,
+            }, null, 2) }],
+          };
+        } catch {
+          return {
+            content: [{ type: "text", text: JSON.stringify({
+              exists: false,
+              path: filePath,
+              content: null,
+              metadata: null,
+            }, null, 2) }],
+          };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to get journal: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== LIST RECENT JOURNAL ENTRIES =====
+  registerTool(
+    "list_recent_journal_entries",
+    {
+      title: "List Recent Journal Entries",
+      description: "Get recent journal entries for pattern recognition",
+      inputSchema: {
+        days: z.number().min(1).max(30).optional().describe("How many days back to look (default: 7, max: 30)"),
+        tags: z.array(z.string()).optional().describe("Filter by tags"),
+      },
+    },
+    async ({ days, tags }) => {
+      try {
+        const numDays = days || 7;
+        const entries: Array<{
+          date: string;
+          mood?: string;
+          energy_level?: number;
+          tags?: string[];
+          wins?: string[];
+          struggles?: string[];
+          path: string;
+        }> = [];
+
+        const today = new Date();
+
+        for (let i = 0; i < numDays; i++) {
+          const date = new Date(today);
+          date.setDate(date.getDate() - i);
+          const dateStr = date.toISOString().split("T")[0];
+          const [year, month] = dateStr.split("-").map(Number);
+          const monthName = getMonthName(month);
+          const monthFolder = `${month.toString().padStart(2, "0")}-${monthName}`;
+          const filePath = `journal/entries/${year}/${monthFolder}/${dateStr}.md`;
+
+          try {
+            const content = await readMarkdownFile(filePath);
+            const { metadata } = parseJournalEntry(content);
+
+            // Filter by tags if specified
+            if (tags && tags.length > 0) {
+              const entryTags = metadata.tags as string[] | undefined;
+              if (!entryTags || !tags.some(t => entryTags.includes(t))) {
+                continue;
+              }
+            }
+
+            entries.push({
+              date: dateStr,
+              mood: metadata.mood as string | undefined,
+              energy_level: metadata.energy_level as number | undefined,
+              tags: metadata.tags as string[] | undefined,
+              wins: metadata.wins as string[] | undefined,
+              struggles: metadata.struggles as string[] | undefined,
+              path: filePath,
+            });
+          } catch {
+            // Entry doesn't exist for this day
+          }
+        }
+
+        const fromDate = new Date(today);
+        fromDate.setDate(fromDate.getDate() - numDays + 1);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            entries,
+            count: entries.length,
+            date_range: {
+              from: fromDate.toISOString().split("T")[0],
+              to: today.toISOString().split("T")[0],
+            },
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to list journal entries: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== SEARCH JOURNAL =====
+  registerTool(
+    "search_journal",
+    {
+      title: "Search Journal",
+      description: "Search journal entries by keyword, tags, or date range",
+      inputSchema: {
+        query: z.string().optional().describe("Search term to find in content"),
+        tags: z.array(z.string()).optional().describe("Filter by tags"),
+        from_date: z.string().optional().describe("Start date (YYYY-MM-DD)"),
+        to_date: z.string().optional().describe("End date (YYYY-MM-DD)"),
+        limit: z.number().min(1).max(100).optional().describe("Max results (default: 20)"),
+      },
+    },
+    async ({ query, tags, from_date, to_date, limit }) => {
+      try {
+        const maxResults = limit || 20;
+        const results: Array<{
+          date: string;
+          excerpt: string;
+          tags?: string[];
+          path: string;
+          relevance_score: number;
+        }> = [];
+
+        // Calculate date range (default: last 90 days)
+        const endDate = to_date ? new Date(to_date) : new Date();
+        const startDate = from_date ? new Date(from_date) : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+        const currentDate = new Date(endDate);
+
+        while (currentDate >= startDate && results.length < maxResults) {
+          const dateStr = currentDate.toISOString().split("T")[0];
+          const [year, month] = dateStr.split("-").map(Number);
+          const monthName = getMonthName(month);
+          const monthFolder = `${month.toString().padStart(2, "0")}-${monthName}`;
+          const filePath = `journal/entries/${year}/${monthFolder}/${dateStr}.md`;
+
+          try {
+            const content = await readMarkdownFile(filePath);
+            const { metadata, body } = parseJournalEntry(content);
+
+            // Check tags filter
+            if (tags && tags.length > 0) {
+              const entryTags = metadata.tags as string[] | undefined;
+              if (!entryTags || !tags.some(t => entryTags.includes(t))) {
+                currentDate.setDate(currentDate.getDate() - 1);
+                continue;
+              }
+            }
+
+            // Check query filter
+            let relevanceScore = 1;
+            if (query) {
+              const queryLower = query.toLowerCase();
+              const contentLower = content.toLowerCase();
+              if (!contentLower.includes(queryLower)) {
+                currentDate.setDate(currentDate.getDate() - 1);
+                continue;
+              }
+              // Calculate simple relevance score
+              const matches = contentLower.split(queryLower).length - 1;
+              relevanceScore = Math.min(1, matches / 5);
+            }
+
+            // Extract excerpt around the query
+            let excerpt = body.substring(0, 200);
+            if (query) {
+              const queryIndex = body.toLowerCase().indexOf(query.toLowerCase());
+              if (queryIndex >= 0) {
+                const start = Math.max(0, queryIndex - 50);
+                const end = Math.min(body.length, queryIndex + query.length + 100);
+                excerpt = "..." + body.substring(start, end) + "...";
+              }
+            }
+
+            results.push({
+              date: dateStr,
+              excerpt: excerpt.trim(),
+              tags: metadata.tags as string[] | undefined,
+              path: filePath,
+              relevance_score: relevanceScore,
+            });
+          } catch {
+            // Entry doesn't exist
+          }
+
+          currentDate.setDate(currentDate.getDate() - 1);
+        }
+
+        // Sort by relevance if query provided
+        if (query) {
+          results.sort((a, b) => b.relevance_score - a.relevance_score);
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            results,
+            count: results.length,
+            query: query || null,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to search journal: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== EXTRACT STORY IDEAS =====
+  registerTool(
+    "extract_story_ideas",
+    {
+      title: "Extract Story Ideas",
+      description: "Identify story-worthy moments from journal entries for LinkedIn Personal Stories pillar",
+      inputSchema: {
+        from_date: z.string().optional().describe("Start date (YYYY-MM-DD). Default: 30 days ago"),
+        to_date: z.string().optional().describe("End date (YYYY-MM-DD). Default: today"),
+      },
+    },
+    async ({ from_date, to_date }) => {
+      try {
+        // Calculate date range
+        const endDate = to_date ? new Date(to_date) : new Date();
+        const startDate = from_date ? new Date(from_date) : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+        // Collect all journal entries in range
+        const entriesData: Array<{
+          date: string;
+          content: string;
+          metadata: Record<string, unknown>;
+        }> = [];
+
+        const currentDate = new Date(endDate);
+
+        while (currentDate >= startDate) {
+          const dateStr = currentDate.toISOString().split("T")[0];
+          const [year, month] = dateStr.split("-").map(Number);
+          const monthName = getMonthName(month);
+          const monthFolder = `${month.toString().padStart(2, "0")}-${monthName}`;
+          const filePath = `journal/entries/${year}/${monthFolder}/${dateStr}.md`;
+
+          try {
+            const content = await readMarkdownFile(filePath);
+            const { metadata, body } = parseJournalEntry(content);
+            entriesData.push({
+              date: dateStr,
+              content: body,
+              metadata,
+            });
+          } catch {
+            // Entry doesn't exist
+          }
+
+          currentDate.setDate(currentDate.getDate() - 1);
+        }
+
+        if (entriesData.length === 0) {
+          return {
+            content: [{ type: "text", text: JSON.stringify({
+              story_ideas: [],
+              count: 0,
+              message: "No journal entries found in the specified date range.",
+            }, null, 2) }],
+          };
+        }
+
+        // Identify story-worthy themes based on metadata patterns
+        const storyIdeas: Array<{
+          id: string;
+          theme: string;
+          title: string;
+          source_entries: string[];
+          excerpt: string;
+          suggested_tags: string[];
+        }> = [];
+
+        // Theme 1: Working Dad moments (kids_moments + work content)
+        const kidsEntries = entriesData.filter(e =>
+          (e.metadata.kids_moments as string[] | undefined)?.length ?? 0 > 0
+        );
+        if (kidsEntries.length >= 2) {
+          const moments = kidsEntries.flatMap(e => e.metadata.kids_moments as string[] || []);
+          storyIdeas.push({
+            id: `story-${endDate.toISOString().split("T")[0]}-working-dad`,
+            theme: "working-dad-reality",
+            title: "Building While Parenting",
+            source_entries: kidsEntries.map(e => e.date),
+            excerpt: moments.slice(0, 3).join(" | "),
+            suggested_tags: ["working-dad", "build-in-public", "work-life-balance"],
+          });
+        }
+
+        // Theme 2: Struggles and lessons
+        const struggleEntries = entriesData.filter(e =>
+          (e.metadata.struggles as string[] | undefined)?.length ?? 0 > 0
+        );
+        if (struggleEntries.length >= 1) {
+          const struggles = struggleEntries.flatMap(e => e.metadata.struggles as string[] || []);
+          storyIdeas.push({
+            id: `story-${endDate.toISOString().split("T")[0]}-lessons`,
+            theme: "failures-and-lessons",
+            title: "What Went Wrong (And What I Learned)",
+            source_entries: struggleEntries.map(e => e.date),
+            excerpt: struggles.slice(0, 3).join(" | "),
+            suggested_tags: ["lessons-learned", "transparency", "growth"],
+          });
+        }
+
+        // Theme 3: Wins and progress
+        const winEntries = entriesData.filter(e =>
+          (e.metadata.wins as string[] | undefined)?.length ?? 0 > 0
+        );
+        if (winEntries.length >= 2) {
+          const wins = winEntries.flatMap(e => e.metadata.wins as string[] || []);
+          storyIdeas.push({
+            id: `story-${endDate.toISOString().split("T")[0]}-progress`,
+            theme: "build-in-public-progress",
+            title: "Small Wins Add Up",
+            source_entries: winEntries.map(e => e.date),
+            excerpt: wins.slice(0, 3).join(" | "),
+            suggested_tags: ["build-in-public", "progress", "wins"],
+          });
+        }
+
+        // Theme 4: Energy/mood patterns
+        const lowEnergyDays = entriesData.filter(e =>
+          (e.metadata.energy_level as number || 10) <= 4
+        );
+        const highEnergyDays = entriesData.filter(e =>
+          (e.metadata.energy_level as number || 0) >= 8
+        );
+        if (lowEnergyDays.length >= 1 && highEnergyDays.length >= 1) {
+          storyIdeas.push({
+            id: `story-${endDate.toISOString().split("T")[0]}-energy`,
+            theme: "energy-management",
+            title: "The Energy Rollercoaster of Building",
+            source_entries: [...lowEnergyDays.map(e => e.date), ...highEnergyDays.map(e => e.date)],
+            excerpt: `Low energy days: ${lowEnergyDays.length}, High energy days: ${highEnergyDays.length}`,
+            suggested_tags: ["productivity", "burnout", "energy-management"],
+          });
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            story_ideas: storyIdeas,
+            count: storyIdeas.length,
+            entries_analyzed: entriesData.length,
+            date_range: {
+              from: startDate.toISOString().split("T")[0],
+              to: endDate.toISOString().split("T")[0],
+            },
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to extract story ideas: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== CLAUDE PROJECTS TOOLS =====
+
+  // Tool: Get Claude Projects
+  registerTool(
+    "get_claude_projects",
+    {
+      title: "Get Claude Projects",
+      description: "List all Claude.ai projects with their PURPOSE.md summaries. Projects are stored in .claude/claude-projects/",
+    },
+    async () => {
+      try {
+        const projectsDir = ".claude/claude-projects";
+        const projects = await listDirectory(projectsDir);
+
+        const projectList: Array<{
+          name: string;
+          path: string;
+          purpose_summary: string | null;
+          has_instructions: boolean;
+        }> = [];
+
+        for (const item of projects) {
+          if (item.type !== "dir") continue;
+
+          let purposeSummary: string | null = null;
+          let hasInstructions = false;
+
+          try {
+            const purposeContent = await readMarkdownFile(`${projectsDir}/${item.name}/PURPOSE.md`);
+            // Extract first paragraph after the title as summary
+            const lines = purposeContent.split("\n").filter(l => l.trim() && !l.startsWith("#"));
+            purposeSummary = lines.slice(0, 3).join(" ").substring(0, 300);
+          } catch {
+            // PURPOSE.md doesn't exist
+          }
+
+          try {
+            await readMarkdownFile(`${projectsDir}/${item.name}/INSTRUCTIONS.xml`);
+            hasInstructions = true;
+          } catch {
+            // INSTRUCTIONS.xml doesn't exist
+          }
+
+          projectList.push({
+            name: item.name,
+            path: `${projectsDir}/${item.name}`,
+            purpose_summary: purposeSummary,
+            has_instructions: hasInstructions,
+          });
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            projects: projectList,
+            count: projectList.length,
+            base_path: projectsDir,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to list Claude projects: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // Tool: Get Claude Project Details
+  registerTool(
+    "get_claude_project",
+    {
+      title: "Get Claude Project",
+      description: "Get details of a specific Claude.ai project including INSTRUCTIONS.xml and PURPOSE.md content",
+      inputSchema: {
+        name: z.string().describe("Project folder name (e.g., 'home-base', 'nexus', 'daily-check-in')"),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const projectPath = `.claude/claude-projects/${name}`;
+
+        let instructions: string | null = null;
+        let purpose: string | null = null;
+        const otherFiles: string[] = [];
+
+        try {
+          instructions = await readMarkdownFile(`${projectPath}/INSTRUCTIONS.xml`);
+        } catch {
+          // File doesn't exist
+        }
+
+        try {
+          purpose = await readMarkdownFile(`${projectPath}/PURPOSE.md`);
+        } catch {
+          // File doesn't exist
+        }
+
+        // List other files in the project
+        try {
+          const files = await listDirectory(projectPath);
+          for (const file of files) {
+            if (file.name !== "INSTRUCTIONS.xml" && file.name !== "PURPOSE.md") {
+              otherFiles.push(file.name);
+            }
+          }
+        } catch {
+          // Directory might not exist
+        }
+
+        if (!instructions && !purpose) {
+          return { content: [{ type: "text", text: `Project '${name}' not found or has no content` }] };
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            name,
+            path: projectPath,
+            instructions: instructions ? { exists: true, content: instructions } : { exists: false },
+            purpose: purpose ? { exists: true, content: purpose } : { exists: false },
+            other_files: otherFiles,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to get Claude project: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // Tool: Create Claude Project
+  registerTool(
+    "create_claude_project",
+    {
+      title: "Create Claude Project",
+      description: "Create a new Claude.ai project folder with INSTRUCTIONS.xml and PURPOSE.md templates",
+      inputSchema: {
+        name: z.string().describe("Project folder name (lowercase, hyphenated, e.g., 'my-new-project')"),
+        display_name: z.string().describe("Human-readable project name (e.g., 'My New Project')"),
+        summary: z.string().describe("One-sentence summary of the project's purpose"),
+        scope: z.array(z.string()).optional().describe("List of in-scope responsibilities"),
+        out_of_scope: z.array(z.string()).optional().describe("List of out-of-scope items"),
+        tone: z.string().optional().describe("Personality/tone description (e.g., 'Casual, direct, and supportive')"),
+        mcp_tools: z.array(z.string()).optional().describe("MCP tools this project should use"),
+      },
+    },
+    async ({ name, display_name, summary, scope, out_of_scope, tone, mcp_tools }) => {
+      try {
+        const projectPath = `.claude/claude-projects/${name}`;
+        const today = new Date().toISOString().split("T")[0];
+
+        // Create PURPOSE.md
+        const purposeContent = `# ${display_name}
+
+## Purpose
+${summary}
+
+## Key Responsibilities
+${scope?.map(s => `- ${s}`).join("\n") || "- (To be defined)"}
+
+## MCP Tools Used
+${mcp_tools?.map(t => `- \`${t}\``).join("\n") || "- (To be defined)"}
+
+## Out of Scope
+${out_of_scope?.map(s => `- ${s}`).join("\n") || "- (To be defined)"}
+
+---
+_Created: ${today}_
+`;
+
+        // Create INSTRUCTIONS.xml template
+        const instructionsContent = `<?xml version="1.0" encoding="UTF-8"?>
+<claude_project>
+  <name>${display_name}</name>
+
+  <summary>
+    ${summary}
+  </summary>
+
+  <personality>
+    <tone>
+      ${tone || "Casual, direct, and helpful."}
+    </tone>
+
+    <approach>
+      You're a thought partner AND executor. That means:
+      - Ask clarifying questions before diving in (don't assume)
+      - Present multiple options with your recommendation highlighted
+      - Actually do the work, don't just talk about it
+      - Be proactive - spot opportunities and mention them
+    </approach>
+
+    <honesty_policy>
+      If you don't know something, say "I don't know" or "I couldn't find that."
+      If you're uncertain, say so. Don't hallucinate data, metrics, or facts.
+      It's always better to be honest than to bullshit.
+    </honesty_policy>
+  </personality>
+
+  <myself_mcp_tools>
+    <description>
+      The Myself MCP contains relevant data. Here are the tools to use:
+    </description>
+
+    <tools>
+${mcp_tools?.map(t => `      <tool name="${t}">Description here</tool>`).join("\n") || "      <!-- Add relevant tools -->"}
+    </tools>
+  </myself_mcp_tools>
+
+  <scope>
+    <in_scope>
+${scope?.map(s => `      <item>${s}</item>`).join("\n") || "      <!-- Define in-scope items -->"}
+    </in_scope>
+
+    <out_of_scope>
+${out_of_scope?.map(s => `      <item>${s}</item>`).join("\n") || "      <!-- Define out-of-scope items -->"}
+    </out_of_scope>
+  </scope>
+
+  <key_reminders>
+    <reminder>Auto-fetch relevant context at conversation start</reminder>
+    <reminder>Be honest - say "I don't know" when you don't know</reminder>
+    <reminder>Never use em dashes</reminder>
+  </key_reminders>
+</claude_project>
+`;
+
+        await writeFiles(
+          [
+            { path: `${projectPath}/PURPOSE.md`, content: purposeContent },
+            { path: `${projectPath}/INSTRUCTIONS.xml`, content: instructionsContent },
+          ],
+          `Create Claude project: ${display_name}`
+        );
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            success: true,
+            project: {
+              name,
+              display_name,
+              path: projectPath,
+              files_created: ["PURPOSE.md", "INSTRUCTIONS.xml"],
+            },
+            message: `Created Claude project '${display_name}' at ${projectPath}`,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to create Claude project: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // Tool: Update Claude Project File
+  registerTool(
+    "update_claude_project_file",
+    {
+      title: "Update Claude Project File",
+      description: "Create or update a file in a Claude.ai project folder. Can update INSTRUCTIONS.xml, PURPOSE.md, or create new files.",
+      inputSchema: {
+        project: z.string().describe("Project folder name (e.g., 'home-base', 'nexus')"),
+        filename: z.string().describe("File to create/update (e.g., 'PURPOSE.md', 'INSTRUCTIONS.xml', 'custom-file.md')"),
+        content: z.string().describe("Full file content"),
+      },
+    },
+    async ({ project, filename, content }) => {
+      try {
+        const filePath = `.claude/claude-projects/${project}/${filename}`;
+
+        // Check if this is an update or create
+        const isUpdate = await fileExists(filePath);
+
+        await writeFile(filePath, content, `${isUpdate ? "Update" : "Create"} ${filename} in ${project}`);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            success: true,
+            action: isUpdate ? "updated" : "created",
+            project,
+            filename,
+            path: filePath,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to update Claude project file: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // ===== VALIDATION TOOLS =====
+
+  // Tool: Validate Knowledge Base
+  registerTool(
+    "validate_knowledge_base",
+    {
+      title: "Validate Knowledge Base",
+      description: "Check the whole knowledge base for missing files, invalid JSON, schema violations, dangling references (interviews to applications, resume manifest to files), and misplaced journal entries",
+      inputSchema: {
+        include_warnings: z.boolean().optional().describe("Also report warnings such as missing optional files (defaults to true)"),
+      },
+    },
+    async ({ include_warnings }) => {
+      const { filesChecked, problems } = await lintKnowledgeBase(storage);
+      const errors = problems.filter(problem => problem.severity === "error").length;
+      const reported = include_warnings === false ? problems.filter(problem => problem.severity === "error") : problems;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            valid: errors === 0,
+            files_checked: filesChecked,
+            errors,
+            warnings: problems.length - errors,
+            problems: reported,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // Tool: Complete Tool Argument
+  registerTool(
+    "complete_tool_argument",
+    {
+      title: "Complete Tool Argument",
+      description: "Suggest values for a tool argument that must match the knowledge base exactly (goal IDs, milestone IDs, skill names, resume variants, chief aim principles, Claude project names, ...), drawn from the current data files. MCP completion/complete only covers prompts and resources, so this does the same for tools.",
+      inputSchema: {
+        tool: z.string().describe("Tool the argument belongs to (e.g., 'update_goal_progress')"),
+        argument: z.string().describe("Argument to complete (e.g., 'goal_id')"),
+        value: z.string().optional().describe("What has been typed so far; suggestions start with it (defaults to empty, which lists everything)"),
+        context: z.record(z.string(), z.string()).optional().describe("Other arguments already chosen, which narrow some suggestions (e.g., {\"year\": \"2025\"} for goal_id, {\"category\": \"databases\"} for skill_name)"),
+      },
+    },
+    async ({ tool, argument, value, context }) => {
+      const completers = TOOL_ARGUMENT_COMPLETIONS[tool];
+      if (!completers) {
+        return {
+          content: [{ type: "text", text: `No suggestions for ${tool}. Tools with suggestions: ${Object.keys(TOOL_ARGUMENT_COMPLETIONS).join(", ")}` }],
+        };
+      }
+      const completer = completers[argument];
+      if (!completer) {
+        return {
+          content: [{ type: "text", text: `No suggestions for ${tool}.${argument}. Arguments with suggestions: ${Object.keys(completers).join(", ")}` }],
+        };
+      }
+
+      const values = await createCompletions(storage)[completer](value ?? "", context);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ tool, argument, values }, null, 2) }],
+      };
+    }
+  );
+
+  // Tool: Migrate Knowledge Base
+  registerTool(
+    "migrate_knowledge_base",
+    {
+      title: "Migrate Knowledge Base",
+      description: "Upgrade every data file to its current schema version and stamp schema_version on it, in one commit. With dry_run, lists the files that would change and shows their diffs.",
+      inputSchema: {},
+    },
+    async () => {
+      const changes: Array<{ path: string; content: string }> = [];
+      const report: string[] = [];
+      const skipped: string[] = [];
+
+      for (const file of (await listDataFiles(storage)).filter(file => file.endsWith(".json") && schemaFor(file))) {
+        let data: unknown;
+        try {
+          data = JSON.parse(await readFile(file));
+        } catch {
+          skipped.push(`${file}: not valid JSON`);
+          continue;
+        }
+
+        const { data: migrated, from, to, applied } = migrateDataFile(file, data);
+        if (from > to) {
+          skipped.push(`${file}: schema_version ${from} is newer than this server supports`);
+          continue;
+        }
+        if (migrated === data) {
+          continue; // Already current and stamped
+        }
+        const issues = schemaIssues(file, migrated);
+        if (issues.length > 0) {
+          skipped.push(`${file}: ${issues.length} schema issue(s) after migrating, see validate_knowledge_base`);
+          continue;
+        }
+
+        changes.push({ path: file, content: toJson(migrated) });
+        report.push(applied.length > 0
+          ? `- ${file}: v${from} -> v${to} (${applied.map(migration => migration.description).join("; ")})`
+          : `- ${file}: stamp schema_version ${to}`);
+      }
+
+      if (changes.length > 0) {
+        await writeFiles(changes, `Migrate ${changes.length} data file(s) to current schema versions\n\n${report.join("\n")}`);
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ migrated: changes.map(change => change.path), skipped }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== CHANGE HISTORY TOOLS =====
+
+  // Summary of a change without file contents
+  const describeChange = (entry: ChangeEntry) => ({
+    id: entry.id,
+    time: entry.time,
+    tool: entry.tool,
+    arguments: entry.arguments,
+    message: entry.message,
+    commits: entry.commits,
+    files: entry.files.map(file => ({
+      path: file.path,
+      change: file.before === null ? "created" : file.after === null ? "deleted" : "updated",
+    })),
+    revert_of: entry.revertOf,
+    reverted_by: entry.revertedBy,
+  });
+
+  // Put back the files a change wrote, as one new change. Refuses if any of them
+  // has changed since, so an undo never throws away a later edit.
+  const revertChange = async (entry: ChangeEntry): Promise<CallToolResult> => {
+    if (entry.revertedBy) {
+      return { content: [{ type: "text", text: `Change ${entry.id} was already reverted by ${entry.revertedBy}` }] };
+    }
+
+    const changedSince: string[] = [];
+    for (const file of entry.files) {
+      const current = await fileExists(file.path) ? await readFile(file.path) : null;
+      if (current !== file.after) changedSince.push(file.path);
+    }
+    if (changedSince.length > 0) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: JSON.stringify({
+          error: "changed_since",
+          change: entry.id,
+          paths: changedSince,
+          message: "These files were changed after this change was made. Revert the later changes first, or edit the files directly.",
+        }, null, 2) }],
+      };
+    }
+
+    const context = writeCallContext.getStore();
+    if (context) context.revertOf = entry.id;
+    await writeFiles(entry.files.map(file => ({ path: file.path, content: file.before })), `Revert: ${entry.message}`);
+
+    return {
+      content: [{ type: "text", text: `Reverted change ${entry.id} (${entry.tool}). Restored: ${entry.files.map(file => file.path).join(", ")}` }],
+    };
+  };
+
+  // Tool: Get Change History
+  registerTool(
+    "get_change_history",
+    {
+      title: "Get Change History",
+      description: "List recent changes made through this server's write tools, newest first: tool, arguments, files, commit SHAs and time. Use the id with revert_change.",
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        limit: z.number().int().min(1).max(MAX_CHANGES).optional().default(10).describe("Maximum number of changes to return"),
+        path: z.string().optional().describe("Only changes that touched this file"),
+      },
+    },
+    async ({ limit, path }) => {
+      try {
+        const entries = (await changeLog.list())
+          .filter(entry => !path || entry.files.some(file => file.path === path))
+          .slice(0, limit);
+
+        if (entries.length === 0) {
+          return { content: [{ type: "text", text: "No changes recorded yet" }] };
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(entries.map(describeChange), null, 2) }],
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to get change history: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // Tool: Undo Last Change
+  registerTool(
+    "undo_last_change",
+    {
+      title: "Undo Last Change",
+      description: "Undo the most recent change made through this server that hasn't been undone, restoring the previous file contents",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        // Reverts are skipped so repeated undos walk back through the history
+        const entry = (await changeLog.list()).find(candidate => !candidate.revertedBy && !candidate.revertOf);
+        if (!entry) {
+          return { content: [{ type: "text", text: "No change to undo" }] };
+        }
+        return await revertChange(entry);
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to undo last change: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+
+  // Tool: Revert Change
+  registerTool(
+    "revert_change",
+    {
+      title: "Revert Change",
+      description: "Revert a specific change from get_change_history, restoring the file contents from before it",
+      inputSchema: {
+        change_id: z.string().describe("Change id from get_change_history"),
+      },
+    },
+    async ({ change_id }) => {
+      try {
+        const entry = await changeLog.get(change_id);
+        if (!entry) {
+          return { content: [{ type: "text", text: `Change "${change_id}" not found. Only the last ${MAX_CHANGES} changes are kept.` }] };
+        }
+        return await revertChange(entry);
+      } catch (error) {
+        return { content: [{ type: "text", text: `Failed to revert change: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+      }
+    }
+  );
+}
@@ -1,90 +1,67 @@
-// Types for the knowledge base data structures
+// Types for the knowledge base data structures. Data file types come from the
+// runtime schemas in schemas.ts, so they describe the files as they are checked.
+import type { z } from "zod";
+import type {
+  AboutMeSchema,
+  ApplicationSchema,
+  ApplicationsSchema,
+  BusinessDocumentSchema,
+  BusinessStrategySchema,
+  CareerRoadmapSchema,
+  CertificationSchema,
+  ChiefAimSchema,
+  CompletedLearningSchema,
+  ContactSchema,
+  ContentIdeasSchema,
+  EducationSchema,
+  ExperienceSchema,
+  FinancialsSchema,
+  GoalSchema,
+  GoalsSchema,
+  IdeaSchema,
+  IdeasSchema,
+  InterviewSchema,
+  InterviewsSchema,
+  JobOpportunitiesSchema,
+  JobOpportunitySchema,
+  LearningItemSchema,
+  LearningRoadmapSchema,
+  LinkedInMetricsSchema,
+  LinkedInProfileSchema,
+  PositionSchema,
+  ProjectSchema,
+  ProjectsSchema,
+  ResumeManifestSchema,
+  SkillsSchema,
+  WeeklyActionsSchema,
+} from "./schemas.js";
 
 // Skills
-export interface Skill {
-  name: string;
-  level: string;
-  notes?: string;
-}
-
-export interface SkillCategory {
-  skills: Skill[];
-}
-
-export interface SkillsData {
-  skill_levels: string[];
-  categories: Record<string, SkillCategory>;
-}
+export type SkillsData = z.infer<typeof SkillsSchema>;
 
 export interface SkillResult {
   category: string;
   name: string;
   level: string;
-  notes?: string;
 }
 
 // Experience
-export interface Position {
-  company: string;
-  title: string;
-  start_date: string;
-  end_date: string;
-  responsibilities: string[];
-  technologies: string[];
-}
-
-export interface ExperienceData {
-  positions: Position[];
-}
+export type Position = z.infer<typeof PositionSchema>;
+export type ExperienceData = z.infer<typeof ExperienceSchema>;
 
 // Projects
-export interface Project {
-  name: string;
-  description: string;
-  technologies: string[];
-  repo_url?: string;
-  type?: string;
-  monetization_strategy?: string;
-  status?: string;
-  problem?: string;
-  solution?: string;
-  target_audience?: string;
-  mission_statement?: string;
-}
+export type Project = z.infer<typeof ProjectSchema>;
+export type ProjectsData = z.infer<typeof ProjectsSchema>;
 
-export interface ProjectsData {
-  projects: Project[];
-}
-
-export interface ProjectResult extends Project {
-  status: string;
-}
-
-// Goals
-export interface GoalMetrics {
-  target: string;
-  current: string;
-}
-
-export interface Goal {
+export type ProjectResult = Project & {
   id: string;
-  goal: string;
   status: string;
-  target_date: string;
-  metrics: GoalMetrics;
-}
+};
 
-export interface GoalCategory {
-  title: string;
-  goals: Goal[];
-}
-
-export interface GoalsData {
-  year: number;
-  last_updated: string;
-  categories: Record<string, GoalCategory>;
-  completed_2025_goals?: string[];
-}
+// Goals
+export type Goal = z.infer<typeof GoalSchema>;
+export type GoalMetrics = Goal["metrics"];
+export type GoalsData = z.infer<typeof GoalsSchema>;
 
 export interface GoalResult {
   category: string;
@@ -96,21 +73,10 @@ export interface GoalResult {
 }
 
 // Contact
-export interface ContactData {
-  name: string;
-  email: string;
-  phone: string;
-  location: string;
-  links: Record<string, string>;
-}
+export type ContactData = z.infer<typeof ContactSchema>;
 
 // About Me
-export interface AboutMeData {
-  personality_type: string;
-  hobbies: string[];
-  interests: string[];
-  life_situation: string[];
-}
+export type AboutMeData = z.infer<typeof AboutMeSchema>;
 
 // Profile
 export interface ProfileResult {
@@ -124,167 +90,31 @@ export interface ProfileResult {
 }
 
 // Resume Manifest
-export interface ResumeManifestEntry {
-  cluster: string;
-  name: string;
-  file: string;
-  keywords: string[];
-}
-
-export interface ResumeManifest {
-  generated_at: string;
-  date: string;
-  resumes: ResumeManifestEntry[];
-  source: string;
-}
-
-// Job Opportunities
-export interface JobOpportunity {
-  title: string;
-  company: string;
-  location: string;
-  url: string;
-  cluster?: string;
-  resume?: string;
-  salary_min?: number;
-  salary_max?: number;
-  posted_date?: string;
-}
+export type ResumeManifest = z.infer<typeof ResumeManifestSchema>;
+export type ResumeManifestEntry = ResumeManifest["resumes"][number];
 
-export interface JobOpportunitiesData {
-  generated_at: string;
-  jobs: JobOpportunity[];
-}
+// Job search
+export type Application = z.infer<typeof ApplicationSchema>;
+export type ApplicationsData = z.infer<typeof ApplicationsSchema>;
+export type Interview = z.infer<typeof InterviewSchema>;
+export type InterviewsData = z.infer<typeof InterviewsSchema>;
+export type JobOpportunity = z.infer<typeof JobOpportunitySchema>;
+export type JobOpportunitiesData = z.infer<typeof JobOpportunitiesSchema>;
 
 // Education
-export interface Degree {
-  institution: string;
-  degree: string;
-  field: string;
-  graduation_date: string;
-  relevant_coursework?: string[];
-}
-
-export interface Certification {
-  name: string;
-  issuer: string;
-  date: string;
-  expires?: string;
-}
+export type Certification = z.infer<typeof CertificationSchema>;
+export type EducationData = z.infer<typeof EducationSchema>;
 
-export interface EducationData {
-  degrees: Degree[];
-  certifications: Certification[];
-}
+// Career
+export type CareerRoadmapData = z.infer<typeof CareerRoadmapSchema>;
+export type ChiefAimData = z.infer<typeof ChiefAimSchema>;
+export type WeeklyActionsData = z.infer<typeof WeeklyActionsSchema>;
 
 // Business Types
-export interface BusinessPositioning {
-  what_we_are: string;
-  what_we_are_not: string[];
-  differentiators: string[];
-}
-
-export interface BusinessModel {
-  revenue_streams: string[];
-  pricing_philosophy: string;
-}
-
-export interface CompetitiveLandscape {
-  direct_competitors: string;
-  indirect_competitors: string[];
-  competitive_advantage: string;
-}
-
-export interface BusinessProducts {
-  active: string[];
-  planned: string[];
-  see_also?: string;
-}
-
-export interface BusinessStrategy {
-  business_type: string;
-  founded: string;
-  status: string;
-  website: string;
-  problem_statement: string;
-  solution_statement: string;
-  mission_statement: string;
-  positioning: BusinessPositioning;
-  business_model: BusinessModel;
-  competitive_landscape: CompetitiveLandscape;
-  products: BusinessProducts;
-  key_insights: string[];
-}
-
-export interface PersonaDemographics {
-  age_range: string;
-  experience?: string;
-  level?: string;
-  context?: string;
-  background?: string;
-  role?: string;
-  technical_level?: string;
-}
-
-export interface PersonaPsychographics {
-  beliefs: string[];
-  behaviors?: string[];
-}
-
-export interface Persona {
-  name: string;
-  title: string;
-  demographics: PersonaDemographics;
-  psychographics: PersonaPsychographics;
-  pain_points: string[];
-  trust_builders: string[];
-  messaging: string[];
-}
-
-export interface AntiPersona {
-  name: string;
-  description: string;
-  why_not: string;
-}
-
-export interface PersonasData {
-  note?: string;
-  primary: Persona;
-  secondary: Persona;
-  tertiary: Persona;
-  quaternary: Persona;
-  anti_personas: AntiPersona[];
-  shared_values: {
-    they_believe: string[];
-    they_respond_to: string[];
-  };
-}
-
-export interface ContentPillar {
-  name: string;
-  description: string;
-  target_personas: string[];
-  content_types: string[];
-}
-
-export interface MarketingChannel {
-  platform: string;
-  purpose: string;
-  content_focus: string[];
-  posting_frequency: string;
-  profile_url?: string;
-  handle?: string;
-}
-
-export interface MarketingData {
-  content_strategy: {
-    pillars: ContentPillar[];
-    content_by_persona: Record<string, string[]>;
-  };
-  channels: MarketingChannel[];
-  campaigns: unknown[];
-  metrics_to_track: string[];
-}
+export type BusinessStrategy = z.infer<typeof BusinessStrategySchema>;
+export type PersonasData = z.infer<typeof BusinessDocumentSchema>;
+export type MarketingData = z.infer<typeof BusinessDocumentSchema>;
+export type FinancialsData = z.infer<typeof FinancialsSchema>;
 
 export interface BusinessInfoResult {
   business: string;
@@ -294,41 +124,10 @@ export interface BusinessInfoResult {
 }
 
 // Learning Types
-export interface LearningItem {
-  skill: string;
-  category: string;
-  priority: number;
-  why: string;
-  resources: string[];
-  target_level: string;
-  current_level: string;
-  blocked_by: string | null;
-  parallel_with: string[];
-  estimated_time_commitment: string;
-  notes: string;
-}
-
-export interface LearningRoadmapData {
-  current_focus: LearningItem[];
-  queue: LearningItem[];
-  backlog: LearningItem[];
-  on_hold: LearningItem[];
-}
-
-export interface CompletedLearningEntry {
-  name: string;
-  type: string;
-  category: string;
-  source: string;
-  url: string;
-  completed_date: string;
-  skills_gained: string[];
-  notes: string;
-}
-
-export interface CompletedLearningData {
-  entries: CompletedLearningEntry[];
-}
+export type LearningItem = z.infer<typeof LearningItemSchema>;
+export type LearningRoadmapData = z.infer<typeof LearningRoadmapSchema>;
+export type CompletedLearningData = z.infer<typeof CompletedLearningSchema>;
+export type CompletedLearningEntry = CompletedLearningData["entries"][number];
 
 export interface LearningResult {
   roadmap: LearningRoadmapData;
@@ -336,26 +135,15 @@ export interface LearningResult {
 }
 
 // Ideas Types
-export interface Idea {
-  name: string;
-  description: string;
-  problem: string;
-  solution: string;
-  target_audience: string;
-  effort: string;
-  potential_value: string;
-  status: string;
-  validation_report: unknown | null;
-  notes: string;
-  date_added: string;
-  date_updated: string;
-}
-
-export interface IdeasData {
-  ideas: Idea[];
-}
+export type Idea = z.infer<typeof IdeaSchema>;
+export type IdeasData = z.infer<typeof IdeasSchema>;
 
 export interface IdeasResult {
   source: string;
   ideas: Idea[];
 }
+
+// LinkedIn
+export type LinkedInProfileData = z.infer<typeof LinkedInProfileSchema>;
+export type LinkedInMetricsData = z.infer<typeof LinkedInMetricsSchema>;
+export type ContentIdeasData = z.infer<typeof ContentIdeasSchema>;
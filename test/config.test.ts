@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { loadConfig } from "../src/config.js";
+
+// Environment with no config file, serving the default knowledge base from GitHub
+function env(overrides: Record<string, string>): NodeJS.ProcessEnv {
+  return { KB_CONFIG: "", STORAGE_BACKEND: "github", GITHUB_OWNER: "owner", GITHUB_REPO: "kb", ...overrides };
+}
+
+describe("people", () => {
+  it("load when each has a knowledge base of their own", () => {
+    const config = loadConfig("github", env({
+      KB_PEOPLE: JSON.stringify({ alex: { github: { owner: "alex" } }, sam: { github: { branch: "sam" } } }),
+    }));
+    assert.deepEqual(Object.keys(config.people), ["alex", "sam"]);
+  });
+
+  it("are rejected when they inherit the default's repo", () => {
+    assert.throws(
+      () => loadConfig("github", env({ KB_PEOPLE: JSON.stringify({ alex: {} }) })),
+      /people\.alex: uses the same knowledge base as the default knowledge base \(owner\/kb@main\)/,
+    );
+  });
+
+  it("are rejected when two share a repo, whatever its case", () => {
+    assert.throws(
+      () => loadConfig("github", env({ KB_PEOPLE: JSON.stringify({ alex: { github: { owner: "Shared" } }, sam: { github: { owner: "shared" } } }) })),
+      /people\.sam: uses the same knowledge base as person "alex"/,
+    );
+  });
+
+  it("are rejected when they share a local root", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "kb-"));
+    try {
+      assert.throws(
+        () => loadConfig("local", env({ STORAGE_BACKEND: "local", KB_ROOT: root, KB_PEOPLE: JSON.stringify({ alex: { localRoot: root } }) })),
+        /people\.alex: uses the same knowledge base as the default knowledge base .*; give it its own localRoot/,
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true });
+    }
+  });
+
+  it("can all use memory backends", () => {
+    const config = loadConfig("memory", env({ STORAGE_BACKEND: "memory", KB_PEOPLE: JSON.stringify({ alex: {}, sam: {} }) }));
+    assert.equal(config.people.alex.storageBackend, "memory");
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createGitCommittingStorage } from "../src/git.js";
+import { createLocalStorage } from "../src/storage.js";
+import { callTool, connect } from "./helpers.js";
+
+const SKILLS = "profile/skills.json";
+
+describe("git auto-commit", () => {
+  let root: string;
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: root, encoding: "utf-8" }).trim();
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "kb-git-"));
+    git("init", "--quiet");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    fs.mkdirSync(path.join(root, "profile"));
+    fs.writeFileSync(path.join(root, SKILLS), JSON.stringify({ languages: { TypeScript: "adept" } }, null, 2) + "\n");
+    git("add", "-A");
+    git("commit", "--quiet", "-m", "Initial");
+  });
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  const storage = () => createGitCommittingStorage(createLocalStorage(root), root);
+
+  it("commits each write with the tool's message", async () => {
+    const client = await connect(storage());
+    const result = await callTool(client, "update_skill", { category: "languages", skill_name: "Go", level: "novice" });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(git("log", "-1", "--format=%s"), "Update skill: Go (new → novice)");
+    assert.equal(git("status", "--porcelain"), "");
+    await client.close();
+  });
+
+  it("records a write in the history when its commit fails", async () => {
+    // A lock left behind by another git process makes staging fail
+    fs.writeFileSync(path.join(root, ".git", "index.lock"), "");
+    const client = await connect(storage());
+
+    const result = await callTool(client, "update_skill", { category: "languages", skill_name: "Go", level: "novice" });
+    assert.match(result.text, /Wrote profile\/skills\.json but it was not committed: the git commit failed/);
+    assert.equal(JSON.parse(fs.readFileSync(path.join(root, SKILLS), "utf-8")).languages.Go, "novice");
+    assert.equal(git("log", "-1", "--format=%s"), "Initial");
+
+    const history = await callTool(client, "get_change_history");
+    assert.match(history.text, /Update skill: Go \(new → novice\)/);
+    await client.close();
+  });
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { createGitHubStorage } from "../src/github.js";
+
+// Answers Contents API requests from a fixed set of paths
+function stubContentsApi(contents: Record<string, unknown>): void {
+  mock.method(globalThis, "fetch", async (input: string | URL) => {
+    const url = new URL(input);
+    const relativePath = decodeURIComponent(url.pathname.replace(/^\/repos\/owner\/repo\/contents\//, ""));
+    return Object.hasOwn(contents, relativePath)
+      ? new Response(JSON.stringify(contents[relativePath]), { status: 200 })
+      : new Response(JSON.stringify({ message: "Not Found" }), { status: 404 });
+  });
+}
+
+describe("GitHub storage", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("reports directories as existing, like the other backends", async () => {
+    stubContentsApi({
+      "profile": [{ name: "notes.md", type: "file", path: "profile/notes.md" }],
+      "profile/notes.md": { sha: "abc", encoding: "base64", content: Buffer.from("hello").toString("base64") },
+    });
+    const storage = createGitHubStorage({ owner: "owner", repo: "repo", branch: "main", cacheTtlSeconds: 0 });
+
+    assert.equal(await storage.fileExists("profile"), true);
+    assert.equal(await storage.fileExists("profile/notes.md"), true);
+    assert.equal(await storage.fileExists("profile/missing.md"), false);
+    assert.equal(await storage.readFile("profile/notes.md"), "hello");
+    await assert.rejects(storage.readFile("profile"), /not a file/);
+  });
+});
@@ -0,0 +1,21 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer, type ServerOptions } from "../src/server.js";
+import type { Storage } from "../src/storage.js";
+
+// A client connected to a server over the given storage
+export async function connect(storage: Storage, options: ServerOptions = {}): Promise<Client> {
+  const server = createServer(storage, options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+// Call a tool and return its text output
+export async function callTool(client: Client, name: string, args: Record<string, unknown> = {}): Promise<{ text: string; isError: boolean }> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return { text: content.map(item => item.text ?? "").join("\n"), isError: result.isError === true };
+}
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "node:crypto";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { createMemoryTokenStore, createOAuthServer, type IdentityProvider, type OAuthServer } from "../src/oauth.js";
+
+// Stand-in identity provider: "alice" approves with two scopes, anyone else fails
+const identityProvider: IdentityProvider = {
+  formFieldsHtml: `<input name="user">`,
+  authenticate: async (form) => form.get("user") === "alice"
+    ? { subject: "alice", scopes: ["read:profile", "write:journal"] }
+    : undefined,
+};
+
+const REDIRECT_URI = "http://localhost:8976/callback";
+
+describe("OAuth flow", () => {
+  let server: http.Server;
+  let oauth: OAuthServer;
+  let issuer: string;
+
+  before(async () => {
+    server = http.createServer(async (req, res) => {
+      if (!(await oauth.handleRequest(req, res))) {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    oauth = createOAuthServer({
+      config: { issuer, accessTokenTtlSeconds: 3600, refreshTokenTtlSeconds: 3600 },
+      people: [],
+      tokenStore: createMemoryTokenStore(),
+      identityProvider,
+    });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const postForm = (path: string, fields: Record<string, string>) => fetch(`${issuer}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(fields),
+    redirect: "manual",
+  });
+
+  async function register(): Promise<string> {
+    const response = await fetch(`${issuer}/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ client_name: "Test client", redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: "none" }),
+    });
+    assert.equal(response.status, 201);
+    return (await response.json()).client_id;
+  }
+
+  // Run the consent page as the given user and return the redirect it answers with
+  async function authorize(clientId: string, verifier: string, user: string): Promise<Response> {
+    const params = {
+      response_type: "code",
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: createHash("sha256").update(verifier).digest("base64url"),
+      code_challenge_method: "S256",
+      scope: "read:profile write:journal",
+      state: "xyz",
+    };
+    const page = await fetch(`${issuer}/authorize?${new URLSearchParams(params)}`);
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), /<input name="user">/);
+    return postForm("/authorize", { ...params, decision: "approve", user });
+  }
+
+  async function tokens(fields: Record<string, string>): Promise<{ status: number; body: Record<string, string> }> {
+    const response = await postForm("/token", fields);
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("registers, authorizes with PKCE, exchanges the code, refreshes and revokes", async () => {
+    const clientId = await register();
+    const verifier = randomBytes(32).toString("base64url");
+
+    const denied = await authorize(clientId, verifier, "mallory");
+    assert.equal(denied.status, 401);
+
+    const approved = await authorize(clientId, verifier, "alice");
+    assert.equal(approved.status, 302);
+    const location = new URL(approved.headers.get("location")!);
+    assert.equal(`${location.origin}${location.pathname}`, REDIRECT_URI);
+    assert.equal(location.searchParams.get("state"), "xyz");
+    const code = location.searchParams.get("code")!;
+
+    const wrongVerifier = await tokens({ grant_type: "authorization_code", client_id: clientId, code, code_verifier: "wrong" });
+    assert.equal(wrongVerifier.status, 400);
+    assert.equal(wrongVerifier.body.error, "invalid_grant");
+
+    // The failed exchange used up the code, so authorize again
+    const retry = new URL((await authorize(clientId, verifier, "alice")).headers.get("location")!);
+    const exchange = { grant_type: "authorization_code", client_id: clientId, code: retry.searchParams.get("code")!, code_verifier: verifier, redirect_uri: REDIRECT_URI };
+    const issued = await tokens(exchange);
+    assert.equal(issued.status, 200);
+    assert.equal(issued.body.scope, "read:profile write:journal");
+    assert.equal((await tokens(exchange)).status, 400, "codes are single use");
+
+    const credential = await oauth.verifyAccessToken(issued.body.access_token, "/mcp");
+    assert.equal(credential?.name, "alice");
+    assert.equal(credential?.clientId, clientId);
+    assert.deepEqual(credential?.scopes, ["read:profile", "write:journal"]);
+    assert.ok(credential?.grantId);
+
+    const refreshed = await tokens({ grant_type: "refresh_token", client_id: clientId, refresh_token: issued.body.refresh_token, scope: "read:profile" });
+    assert.equal(refreshed.status, 200);
+    assert.equal(refreshed.body.scope, "read:profile");
+    assert.notEqual(refreshed.body.refresh_token, issued.body.refresh_token);
+    assert.equal((await tokens({ grant_type: "refresh_token", client_id: clientId, refresh_token: issued.body.refresh_token })).status, 400, "refresh tokens rotate");
+
+    const refreshedCredential = await oauth.verifyAccessToken(refreshed.body.access_token, "/mcp");
+    assert.deepEqual(refreshedCredential?.scopes, ["read:profile"]);
+    assert.equal(refreshedCredential?.grantId, credential?.grantId);
+
+    assert.equal((await postForm("/revoke", { client_id: clientId, token: refreshed.body.refresh_token })).status, 200);
+    assert.equal((await tokens({ grant_type: "refresh_token", client_id: clientId, refresh_token: refreshed.body.refresh_token })).status, 400);
+    assert.equal((await postForm("/revoke", { client_id: clientId, token: refreshed.body.access_token })).status, 200);
+    assert.equal(await oauth.verifyAccessToken(refreshed.body.access_token, "/mcp"), undefined);
+  });
+
+  it("keeps the refresh token when a refresh asks for more scope than was granted", async () => {
+    const clientId = await register();
+    const verifier = randomBytes(32).toString("base64url");
+    const location = new URL((await authorize(clientId, verifier, "alice")).headers.get("location")!);
+    const issued = await tokens({ grant_type: "authorization_code", client_id: clientId, code: location.searchParams.get("code")!, code_verifier: verifier });
+    const refresh = { grant_type: "refresh_token", client_id: clientId, refresh_token: issued.body.refresh_token };
+
+    for (const scope of ["read:profile admin:files", "read:profile not:a-scope"]) {
+      const rejected = await tokens({ ...refresh, scope });
+      assert.equal(rejected.status, 400, scope);
+      assert.match(rejected.body.error, /^invalid_(grant|scope)$/);
+    }
+
+    const refreshed = await tokens(refresh);
+    assert.equal(refreshed.status, 200);
+    assert.equal(refreshed.body.scope, "read:profile write:journal");
+  });
+});
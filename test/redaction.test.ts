@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createRedactor, REDACTED } from "../src/redaction.js";
+
+describe("phone redaction", () => {
+  const redact = createRedactor(["phone"]);
+
+  it("hides phone numbers written the usual ways", () => {
+    for (const phone of ["555-123-4567", "555.123.4567", "555 123 4567", "(555) 123-4567", "1-555-123-4567", "+1 555 123 4567", "+15551234567", "+44 (555) 123 4567"]) {
+      assert.equal(redact("notes.md", `Call ${phone} today.`), `Call ${REDACTED} today.`, phone);
+    }
+  });
+
+  it("leaves IDs and plain numbers alone", () => {
+    const text = "app-1734567890123 int-1734567890123 chg-1734567890123-a1b2c3 revenue 1234567890 on 2026-10-19 order#555-123-4567x";
+    assert.equal(redact("notes.md", text), text);
+  });
+
+  it("keeps application IDs usable in JSON files", () => {
+    const applications = { applications: [{ id: "app-1734567890123", company: "Acme", contact: { phone: "555-123-4567" } }] };
+    const redacted = JSON.parse(redact("job-applications/applications.json", JSON.stringify(applications)));
+    assert.equal(redacted.applications[0].id, "app-1734567890123");
+    assert.equal(redacted.applications[0].contact.phone, REDACTED);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConflictError, createMemoryStorage, createReadOnlyStorage } from "../src/storage.js";
+
+describe("memory storage", () => {
+  it("reads back what was written, with normalized paths", async () => {
+    const storage = createMemoryStorage();
+    await storage.writeFile("/profile//notes.md", "hello\n", "Add notes");
+    assert.equal(await storage.readFile("profile/notes.md"), "hello\n");
+    assert.equal(await storage.fileExists("profile/notes.md"), true);
+    await assert.rejects(storage.readFile("profile/missing.md"), /File not found/);
+  });
+
+  it("lists directories implied by file paths", async () => {
+    const storage = createMemoryStorage({ "a/b/c.json": "{}", "a/d.md": "" });
+    assert.deepEqual(await storage.listDirectory("a"), [
+      { name: "b", type: "dir", path: "a/b" },
+      { name: "d.md", type: "file", path: "a/d.md" },
+    ]);
+    assert.deepEqual(await storage.listDirectory("missing"), []);
+    assert.equal(await storage.fileExists("a/b"), true);
+    assert.equal(await storage.fileExists("a/b/missing.json"), false);
+  });
+
+  it("makes writes conditional on the version read", async () => {
+    const storage = createMemoryStorage({ "notes.md": "one" });
+    const { version } = await storage.readVersioned("notes.md");
+    await storage.writeFile("notes.md", "two", "Edit", { expectedVersion: version });
+    await assert.rejects(storage.writeFile("notes.md", "three", "Edit", { expectedVersion: version }), ConflictError);
+    assert.equal(await storage.readFile("notes.md"), "two");
+  });
+
+  it("refuses to create a file that must not exist yet", async () => {
+    const storage = createMemoryStorage({ "notes.md": "one" });
+    await assert.rejects(storage.writeFile("notes.md", "two", "Create", { expectedVersion: null }), ConflictError);
+    await storage.writeFile("other.md", "two", "Create", { expectedVersion: null });
+    assert.equal(await storage.readFile("other.md"), "two");
+  });
+
+  it("writes several files all-or-nothing and deletes on null content", async () => {
+    const storage = createMemoryStorage({ "a.md": "a", "b.md": "b" });
+    const { version } = await storage.readVersioned("a.md");
+    await storage.writeFile("a.md", "changed", "Edit");
+
+    await assert.rejects(storage.writeFiles([
+      { path: "b.md", content: null },
+      { path: "a.md", content: "mine", expectedVersion: version },
+    ], "Both"), ConflictError);
+    assert.equal(await storage.readFile("b.md"), "b");
+
+    await storage.writeFiles([{ path: "b.md", content: null }, { path: "c.md", content: "c" }], "Both");
+    assert.equal(await storage.fileExists("b.md"), false);
+    assert.equal(await storage.readFile("c.md"), "c");
+  });
+});
+
+describe("read-only storage", () => {
+  it("reads through and refuses every write", async () => {
+    const storage = createReadOnlyStorage(createMemoryStorage({ "a.md": "a" }));
+    assert.equal(await storage.readFile("a.md"), "a");
+    await assert.rejects(storage.writeFile("a.md", "b", "Edit"), /read-only/);
+    await assert.rejects(storage.writeFiles([{ path: "a.md", content: null }], "Delete"), /read-only/);
+  });
+});
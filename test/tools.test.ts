@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createMemoryStorage, type Storage } from "../src/storage.js";
+import { callTool, connect } from "./helpers.js";
+
+const SKILLS = "profile/skills.json";
+
+function skillsStorage(): Storage {
+  return createMemoryStorage({ [SKILLS]: JSON.stringify({ languages: { TypeScript: "adept" } }, null, 2) + "\n" });
+}
+
+// Storage where someone else edits the skills file right after each of the
+// first `times` reads of it
+function contendedStorage(times: number): Storage {
+  const storage = skillsStorage();
+  let edits = 0;
+  return {
+    ...storage,
+    readVersioned: async (relativePath) => {
+      const read = await storage.readVersioned(relativePath);
+      if (relativePath === SKILLS && edits < times) {
+        edits++;
+        const skills = JSON.parse(await storage.readFile(SKILLS));
+        skills.languages[`Concurrent${edits}`] = "novice";
+        await storage.writeFile(SKILLS, JSON.stringify(skills, null, 2) + "\n", "Concurrent edit");
+      }
+      return read;
+    },
+  };
+}
+
+describe("conflict retry", () => {
+  it("re-runs a write tool from a fresh read after a conflict", async () => {
+    const storage = contendedStorage(1);
+    const client = await connect(storage);
+    const result = await callTool(client, "update_skill", { category: "languages", skill_name: "Go", level: "novice" });
+    assert.equal(result.isError, false, result.text);
+
+    // Both the concurrent edit and this call's change survive
+    const skills = JSON.parse(await storage.readFile(SKILLS));
+    assert.deepEqual(skills.languages, { TypeScript: "adept", Concurrent1: "novice", Go: "novice" });
+    await client.close();
+  });
+
+  it("gives up with a conflict error when every attempt conflicts", async () => {
+    const storage = contendedStorage(Infinity);
+    const client = await connect(storage);
+    const result = await callTool(client, "update_skill", { category: "languages", skill_name: "Go", level: "novice" });
+    assert.equal(result.isError, true);
+    const error = JSON.parse(result.text);
+    assert.equal(error.error, "conflict");
+    assert.equal(error.path, SKILLS);
+    assert.equal(error.attempts, 3);
+    assert.deepEqual(error.written, []);
+    assert.equal(JSON.parse(await storage.readFile(SKILLS)).languages.Go, undefined);
+    await client.close();
+  });
+});
+
+describe("dry run", () => {
+  it("returns a unified diff and writes nothing", async () => {
+    const storage = skillsStorage();
+    const before = await storage.readFile(SKILLS);
+    const client = await connect(storage);
+    const result = await callTool(client, "update_skill", { category: "languages", skill_name: "TypeScript", level: "expert", dry_run: true });
+
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /^Dry run: nothing was written\. Commit message: Update skill: TypeScript \(adept → expert\)/);
+    assert.match(result.text, /--- a\/profile\/skills\.json/);
+    assert.match(result.text, /^-\s+"TypeScript": "adept"$/m);
+    assert.match(result.text, /^\+\s+"TypeScript": "expert"$/m);
+    assert.equal(await storage.readFile(SKILLS), before);
+
+    const history = await callTool(client, "get_change_history");
+    assert.doesNotMatch(history.text, /Update skill/);
+    await client.close();
+  });
+
+  it("redacts the diff with the caller's redaction policy", async () => {
+    const storage = createMemoryStorage({
+      "business/codaissance/financials.json": JSON.stringify({
+        revenue: { mrr: 1000, arr: 12000 },
+        expenses: { monthly_recurring: [{ name: "Hosting", amount: 55 }] },
+        metrics: { customers: 7 },
+      }, null, 2) + "\n",
+    });
+    const client = await connect(storage, { redact: ["financials"] });
+    const result = await callTool(client, "update_financials", { business: "codaissance", customers: 9, dry_run: true });
+
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /--- a\/business\/codaissance\/financials\.json/);
+    for (const secret of ["1000", "12000", "Hosting", "55"]) {
+      assert.ok(!result.text.includes(secret), `dry run leaked ${secret}:\n${result.text}`);
+    }
+    await client.close();
+  });
+});
+
+describe("read tools", () => {
+  it("leave the schema_version stamp out of what they return", async () => {
+    const storage = createMemoryStorage({
+      "profile/contact.json": JSON.stringify({ schema_version: 1, name: "Me", email: "me@example.com", phone: "555-123-4567", location: "Here", links: {} }),
+      "profile/about-me.json": JSON.stringify({ schema_version: 1, hobbies: ["chess"] }),
+      "profile/preferences.json": JSON.stringify({ remote: true }), // Unstamped; migrated on read
+      "profile/resume.md": "# Me\n\n## Summary\n\nBuilder.\n",
+      "business/codaissance/financials.json": JSON.stringify({ schema_version: 1, revenue: { mrr: 1000 }, expenses: {}, metrics: { customers: 7 } }),
+    });
+    const client = await connect(storage);
+
+    for (const [tool, args] of [["get_profile", {}], ["get_preferences", {}], ["get_financials", { business: "codaissance" }]] as const) {
+      const result = await callTool(client, tool, args);
+      assert.equal(result.isError, false, result.text);
+      assert.doesNotMatch(result.text, /schema_version/, tool);
+    }
+    assert.deepEqual(JSON.parse((await callTool(client, "get_profile")).text).about_me, { hobbies: ["chess"] });
+    await client.close();
+  });
+
+  it("don't drop the stamp from files write tools update", async () => {
+    const storage = skillsStorage();
+    const client = await connect(storage);
+    await callTool(client, "update_skill", { category: "languages", skill_name: "Go", level: "novice" });
+    assert.equal(JSON.parse(await storage.readFile(SKILLS)).schema_version, 1);
+    await client.close();
+  });
+});